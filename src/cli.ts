@@ -2,80 +2,186 @@
 import { Command, Option } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { getProviderForModel, listModels } from './providers';
-import { removeBackground, addBackgroundColor } from './utils/background';
-import { generateThumbnail } from './utils/thumbnail';
-import type { GenerateOptions, Model, AspectRatio } from './types';
+import { applyProviderLimits, isKnownModel, modelIds } from './providers';
+import { loadPlugins } from './providers/plugins';
+import { describeGeneration, generateImage, generationFailure, postProcessSteps } from './pipeline';
+import { registerBatchCommand } from './commands/batch';
+import { registerInspectCommand } from './commands/inspect';
+import { registerHistoryCommand } from './commands/history';
+import { registerTemplatesCommand } from './commands/templates';
+import { registerServeCommand } from './commands/serve';
+import { registerMcpCommand } from './commands/mcp';
+import { printModelList, registerModelsCommand } from './commands/models';
+import { registerUsageCommand } from './commands/usage';
+import { registerEditCommand } from './commands/edit';
+import { registerExtendCommand } from './commands/extend';
+import { registerUpscaleCommand } from './commands/upscale';
+import { registerProcessCommand } from './commands/process';
+import { mapConcurrent } from './utils/concurrency';
+import { claimOutputPath, contactSheetOutputPath, variationOutputPath } from './utils/output';
+import { expandSweep, parseSweeps, sweepLabels, SWEEP_KEYS } from './utils/sweep';
+import type { SweepAxis } from './utils/sweep';
+import { composeContactSheet } from './utils/contact-sheet';
+import { parseFallbackList } from './providers/fallback';
+import { ERROR_EXIT_CODES, exitCodeFor } from './providers/errors';
+import { checkOptions } from './providers/capabilities';
+import { loadReproduction } from './utils/reproduce';
+import { ConfigError, loadConfig, resolveConfig, splitConfig } from './utils/config';
+import { parseVars, renderTemplate } from './utils/templates';
+import { approveCost, costliestAttempt, describeEstimate, estimateCost, setPricing } from './utils/cost';
+import { parseUpscaleFactor, upscalerNames } from './utils/upscale';
+import { BACKGROUND_REMOVERS, parseBackgroundRemover } from './utils/background';
+import type { GenerateOptions, GenerationResult, Model, AspectRatio } from './types';
 import { DEFAULT_OPTIONS } from './types';
 
 const program = new Command();
 
+// Commander attribute names that differ from the GenerateOptions field they set
+const OPTION_FIELDS: Record<string, keyof GenerateOptions> = {
+  reference: 'referenceImages',
+  api: 'useApi',
+  metadata: 'embedMetadata',
+};
+
+/**
+ * Pick the options whose value came from a given source: 'cli' for flags the user
+ * typed, 'env' for IMG_GEN_* environment variables. Built-in defaults are ignored.
+ */
+function optionsFromSource(
+  command: Command,
+  options: GenerateOptions,
+  source: 'cli' | 'env'
+): Partial<GenerateOptions> {
+  const picked: Partial<GenerateOptions> = {};
+  for (const option of command.options) {
+    const key = option.attributeName();
+    const field = OPTION_FIELDS[key] ?? key;
+    if (command.getOptionValueSource(key) === source && field in options) {
+      (picked as Record<string, unknown>)[field] = options[field as keyof GenerateOptions];
+    }
+  }
+  return picked;
+}
+
 program
   .name('generate')
   .description('AI Image Generation CLI - Generate images using Gemini, OpenAI, Flux, and more')
-  .version('1.1.0');
+  .version('1.1.0')
+  // Keep subcommand options (e.g. batch --concurrency) from being claimed by the root command
+  .enablePositionalOptions();
+
+// Register provider plugins first: model names are validated against the registry
+for (const warning of await loadPlugins()) {
+  console.warn(chalk.yellow(`Warning: ${warning}`));
+}
 
 // Handle --list-models before requiring other options
 if (process.argv.includes('--list-models')) {
-  console.log(chalk.bold('\nAvailable Models:\n'));
-  const models = listModels();
-
-  const byProvider = models.reduce((acc, { model, provider }) => {
-    if (!acc[provider]) acc[provider] = [];
-    acc[provider].push(model);
-    return acc;
-  }, {} as Record<string, string[]>);
-
-  for (const [provider, providerModels] of Object.entries(byProvider)) {
-    console.log(chalk.cyan(`  ${provider.toUpperCase()}:`));
-    for (const model of providerModels) {
-      console.log(`    - ${model}`);
-    }
-    console.log();
-  }
+  printModelList();
   process.exit(0);
 }
 
 program
   .argument('[prompt...]', 'Image generation prompt')
-  .option('-m, --model <model>', 'Model to use: nano-banana-pro (default), nano-banana, imagen-4, imagen-3, imagen-3-fast, flux, flux-schnell, flux-pro, gpt-image-1, gpt-image-1.5', DEFAULT_OPTIONS.model)
+  .addOption(
+    new Option('-m, --model <model>', `Model to use: ${modelIds().join(', ')}`)
+      .default(DEFAULT_OPTIONS.model)
+      .env('IMG_GEN_MODEL')
+  )
   .option('-p, --prompt <text>', 'Image generation prompt (alternative to positional argument)')
+  .option('-t, --template <name>', 'Build the prompt from a named template (see: generate templates list)')
+  .option('--var <name=value...>', 'Template variable (repeatable)')
   .addOption(
-    new Option('-s, --size <size>', 'Image size/resolution')
-      .choices(['1K', '2K', '4K', '1024x1024', '1024x1792', '1792x1024', '1536x1536', '1024x1536', '1536x1024'])
+    new Option('-s, --size <size>', 'Image size/resolution, e.g. 2K or 1536x1024 (see: generate models --details)')
+      .env('IMG_GEN_SIZE')
   )
   .addOption(
     new Option('-a, --aspect-ratio <ratio>', 'Aspect ratio (default: 16:9)')
       .choices(['1:1', '16:9', '9:16', '4:3', '3:4', '3:2', '2:3', '4:5', '5:4', '21:9'])
       .default(DEFAULT_OPTIONS.aspectRatio)
+      .env('IMG_GEN_ASPECT_RATIO')
+  )
+  .addOption(
+    new Option('-o, --output <path>', 'Output path or template, e.g. "out/{date}/{slug}-{n}.{ext}"')
+      .default(DEFAULT_OPTIONS.output)
+      .env('IMG_GEN_OUTPUT')
   )
-  .option('-o, --output <path>', 'Output file path', DEFAULT_OPTIONS.output)
   .option('-r, --reference <path...>', 'Reference image(s) for style/composition (repeatable)')
   .option('--transparent', 'Enable transparent background (where supported)')
-  .option('--remove-bg', 'Remove background after generation using remove.bg API')
+  .option(
+    '--remove-bg [backend]',
+    'Remove background after generation: local (offline, flat backgrounds), removebg (API) or auto (default)',
+    parseBackgroundRemover
+  )
   .option('--add-bg <hex>', 'Add background color to transparent image (e.g., "#EAE9DF")')
   .option('-n, --negative-prompt <text>', 'Negative prompt (things to avoid)')
+  .option('--upscale <factor>', 'Enlarge each image after generation: 2x or 4x', parseUpscaleFactor)
+  .addOption(
+    new Option('--upscaler <backend>', 'Upscaling backend; auto is local, replicate is paid and must be chosen')
+      .choices(upscalerNames())
+  )
   .option('--thumbnail [size]', 'Generate thumbnail (default: 256px)', parseInt)
+  .option('--post <steps>', 'Post-processing chain, e.g. "trim,pad:64,bg:#EAE9DF,format:webp:85" (see: generate process --help)')
   .option('--variations <n>', 'Generate N variations (1-10)', (val) => {
     const n = parseInt(val);
     if (isNaN(n) || n < 1 || n > 10) throw new Error('Variations must be 1-10');
     return n;
   })
+  .option('--sweep <key=values...>', `Run every combination of comma-separated values (repeatable; keys: ${SWEEP_KEYS.join(', ')})`)
+  .option('--sheet <path>', 'Contact sheet path for --sweep (default: output path with -sheet suffix)')
   .option('--seed <number>', 'Random seed for reproducibility', parseInt)
   .option('--steps <number>', 'Number of inference steps', parseInt)
   .option('--guidance <number>', 'Guidance scale', parseFloat)
+  .option('--strength <0-1>', 'How much reference images may change: 0 keeps the reference, 1 ignores it (where supported)', parseFloat)
   .addOption(
     new Option('-q, --quality <quality>', 'Image quality (OpenAI models)')
       .choices(['standard', 'hd'])
       .default(DEFAULT_OPTIONS.quality)
   )
   .addOption(
-    new Option('--style <style>', 'Image style')
+    new Option('--style <style>', 'Image style (where supported)')
       .choices(['vivid', 'natural'])
       .default(DEFAULT_OPTIONS.style)
   )
-  .option('--num-images <number>', 'Number of images to generate', parseInt, DEFAULT_OPTIONS.numImages)
+  .option('--num-images <number>', 'Images per request, where the model returns several (see generate models --details)', (val) => {
+    const n = parseInt(val);
+    if (isNaN(n) || n < 1) throw new Error('Number of images must be at least 1');
+    return n;
+  }, DEFAULT_OPTIONS.numImages)
   .option('--api', 'Use Gemini API instead of CLI for nanobanana models')
+  .addOption(
+    new Option('--fallback <models>', 'Comma-separated models to try if generation fails or is refused')
+      .argParser(parseFallbackList)
+      .env('IMG_GEN_FALLBACK')
+  )
+  .option('--retries <n>', 'Retries for rate-limit, network and availability errors (default: 3)', (val) => {
+    const n = parseInt(val);
+    if (isNaN(n) || n < 0) throw new Error('Retries must be 0 or more');
+    return n;
+  })
+  .option('--concurrency <n>', 'Maximum variations generated in parallel', (val) => {
+    const n = parseInt(val);
+    if (isNaN(n) || n < 1) throw new Error('Concurrency must be at least 1');
+    return n;
+  }, DEFAULT_OPTIONS.concurrency)
+  .option('--provider-limit <spec...>', 'Per-provider limit as provider=concurrency[/rpm], e.g. replicate=4/60')
+  .addOption(
+    new Option('--profile <name>', 'Apply a named profile from the config file')
+      .env('IMG_GEN_PROFILE')
+  )
+  .option('--reproduce <image-or-id>', 'Regenerate an earlier image from its metadata or history id; other flags override')
+  .option('--no-clobber', 'Never overwrite existing files; add a numeric suffix instead')
+  .option('--no-metadata', 'Do not embed prompt and settings metadata in the image')
+  .option('--max-cost <usd>', 'Refuse to start if the estimated cost is above this many USD', (val) => {
+    const n = parseFloat(val);
+    if (isNaN(n) || n < 0) throw new Error('Max cost must be an amount in USD');
+    return n;
+  })
+  .option('-y, --yes', 'Do not ask for confirmation before expensive runs')
+  .option('--dry-run', 'Print the request each provider would receive, without calling it')
+  .option('--strict', 'Fail instead of warning when the model ignores or adjusts an option')
+  .option('--json', 'Print results as JSON instead of the summary (no spinner)')
+  .option('--ndjson', 'Stream one JSON result per line as each image finishes')
   .option('--list-models', 'List available models and exit')
   .action(async (promptArgs: string[], opts) => {
     // Read stdin first if available (can be combined with CLI args)
@@ -96,20 +202,34 @@ program
     // CLI prompt from positional args or -p flag
     const cliPrompt = promptArgs.length > 0 ? promptArgs.join(' ') : (opts.prompt || '');
 
-    // Combine: stdin + CLI with XML-like structure for clarity
-    let prompt: string;
-    if (stdinPrompt && cliPrompt) {
-      prompt = `<image_prompt>\n${stdinPrompt}\n</image_prompt>\n\n<additional_guidance>\n${cliPrompt}\n</additional_guidance>`;
-    } else {
-      prompt = stdinPrompt || cliPrompt;
+    // Templates see the CLI prompt as {prompt} and piped text as {input}; stdin
+    // combined with CLI args goes through the built-in stdin-refine template
+    let prompt = stdinPrompt || cliPrompt;
+    const templateName: string | undefined = opts.template || (stdinPrompt && cliPrompt ? 'stdin-refine' : undefined);
+    if (templateName) {
+      try {
+        const vars: Record<string, string> = {
+          ...(cliPrompt && { prompt: cliPrompt }),
+          ...(stdinPrompt && { input: stdinPrompt }),
+          ...parseVars(opts.var),
+        };
+        const rendered = await renderTemplate(templateName, vars);
+        for (const name of rendered.unused) {
+          console.warn(chalk.yellow(`Warning: template "${templateName}" does not use {${name}}; its value is ignored`));
+        }
+        prompt = rendered.prompt;
+      } catch (error) {
+        console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+        process.exit(1);
+      }
     }
 
-    if (!prompt) {
+    if (!prompt && !opts.reproduce) {
       console.error(chalk.red('Error: Prompt is required. Usage: generate "your prompt" or via stdin.'));
       process.exit(1);
     }
 
-    const options: GenerateOptions = {
+    let options: GenerateOptions = {
       model: opts.model as Model,
       prompt: prompt,
       size: opts.size,
@@ -120,83 +240,279 @@ program
       removeBg: opts.removeBg,
       addBg: opts.addBg,
       negativePrompt: opts.negativePrompt,
+      upscale: opts.upscale,
+      upscaler: opts.upscaler,
       thumbnail: opts.thumbnail,
+      post: opts.post,
       variations: opts.variations,
       seed: opts.seed,
       steps: opts.steps,
       guidance: opts.guidance,
+      strength: opts.strength,
       quality: opts.quality,
       style: opts.style,
       numImages: opts.numImages,
       useApi: opts.api,
+      retries: opts.retries,
+      embedMetadata: opts.metadata,
+      clobber: opts.clobber,
+      fallback: opts.fallback,
     };
 
-    const variationCount = options.variations || 1;
-    const isMultiple = variationCount > 1;
-    const baseOutput = options.output || DEFAULT_OPTIONS.output;
-    const basePath = baseOutput.replace(/\.(png|jpg|jpeg|webp)$/i, '');
-    const ext = baseOutput.match(/\.(png|jpg|jpeg|webp)$/i)?.[0] || '.png';
+    // Layer settings: built-in defaults < config files < profile < environment
+    // < reproduced image < command-line flags
+    let config: ReturnType<typeof splitConfig>;
+    let explicit: Partial<GenerateOptions>;
+    try {
+      config = splitConfig(resolveConfig(await loadConfig(), opts.profile));
+      setPricing(config.pricing);
+
+      let recorded: Partial<GenerateOptions> = {};
+      if (opts.reproduce) {
+        const { options: reproduced, warnings } = await loadReproduction(opts.reproduce);
+        for (const warning of warnings) {
+          console.warn(chalk.yellow(`Warning: ${warning}`));
+        }
+        recorded = Object.fromEntries(Object.entries(reproduced).filter(([, value]) => value !== undefined));
+      }
 
-    const spinner = ora({
-      text: isMultiple
-        ? `Generating ${variationCount} variations with ${chalk.cyan(options.model)}...`
-        : `Generating image with ${chalk.cyan(options.model)}...`,
-      spinner: 'dots',
-    }).start();
+      explicit = {
+        ...config.options,
+        ...optionsFromSource(program, options, 'env'),
+        ...recorded,
+        ...optionsFromSource(program, options, 'cli'),
+      };
+      options = { ...options, ...explicit, prompt: prompt || recorded.prompt || '' };
+    } catch (error) {
+      console.error(chalk.red(error instanceof ConfigError ? error.message : `Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      process.exit(1);
+    }
+
+    if (!isKnownModel(options.model)) {
+      console.error(chalk.red(`Error: Unknown model "${options.model}". Available models: ${modelIds().join(', ')}`));
+      process.exit(1);
+    }
 
+    // Catch a bad post-processing step before paying for a generation
     try {
-      const provider = getProviderForModel(options.model);
-      const generatedPaths: string[] = [];
+      postProcessSteps(options);
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      process.exit(1);
+    }
 
-      for (let i = 1; i <= variationCount; i++) {
-        const outputPath = isMultiple ? `${basePath}-v${i}${ext}` : baseOutput;
+    const concurrency = program.getOptionValueSource('concurrency') === 'cli'
+      ? opts.concurrency
+      : config.concurrency ?? opts.concurrency;
 
-        if (isMultiple) {
-          spinner.text = `Generating variation ${i}/${variationCount}...`;
-        }
+    let sweep: SweepAxis[] = [];
+    try {
+      sweep = parseSweeps(opts.sweep ?? []);
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      process.exit(1);
+    }
+    if (sweep.length && options.variations && options.variations > 1) {
+      console.error(chalk.red('Error: --sweep cannot be combined with --variations; sweep over seed instead'));
+      process.exit(1);
+    }
 
-        // Generate the image
-        const result = await provider.generate({ ...options, output: outputPath });
+    // A sweep runs one image per combination; otherwise the same options N times
+    const cells = sweep.length ? expandSweep(sweep) : [];
+    const runs: GenerateOptions[] = cells.length
+      ? cells.map((cell) => ({ ...options, ...cell.values }))
+      : Array.from({ length: options.variations || 1 }, () => options);
+
+    // Check every run against its model before anything is sent. Only settings the
+    // user chose are reported; built-in defaults the model can't use are adjusted quietly.
+    const requested = new Set([
+      ...Object.keys(explicit),
+      ...sweep.map((axis) => axis.key),
+    ] as Array<keyof GenerateOptions>);
+    const issues = [...new Map(
+      runs.flatMap((run) => checkOptions(run, requested).issues).map((issue) => [issue.message, issue])
+    ).values()];
+    const blocking = issues.filter((issue) => opts.strict || issue.severity === 'error');
+    for (const issue of issues) {
+      if (!blocking.includes(issue)) console.warn(chalk.yellow(`Warning: ${issue.message}`));
+    }
+    if (blocking.length) {
+      for (const issue of blocking) console.error(chalk.red(`Error: ${issue.message}`));
+      if (opts.strict && blocking.some((issue) => issue.severity === 'warning')) {
+        console.error(chalk.dim('(--strict treats unsupported options as errors)'));
+      }
+      process.exit(ERROR_EXIT_CODES.invalid_params);
+    }
 
-        if (!result.success) {
-          spinner.fail(chalk.red(`Generation failed: ${result.error}`));
-          process.exit(1);
+    const variationCount = runs.length;
+    const isMultiple = variationCount > 1;
+    const noun = cells.length ? 'combinations' : 'variations';
+    const outputTemplate = options.output || DEFAULT_OPTIONS.output;
+    const runDate = new Date();
+    const jsonMode = !!(opts.json || opts.ndjson);
+
+    // Results for --json/--ndjson, with the combination for sweeps
+    const jsonEntry = (result: GenerationResult, index: number) => ({
+      index,
+      ...(cells.length && { sweep: cells[index - 1].values }),
+      ...result,
+    });
+
+    // Price each run at the costliest model in its fallback chain, which may be the one used
+    const estimate = estimateCost(runs.map(costliestAttempt));
+
+    // Show what would be sent to each provider, then stop
+    if (opts.dryRun) {
+      try {
+        const requests = await Promise.all(runs.map(async (runOptions, i) => ({
+          index: i + 1,
+          ...(cells.length && { sweep: cells[i].values }),
+          ...await describeGeneration({
+            ...runOptions,
+            output: variationOutputPath(outputTemplate, runOptions, i + 1, variationCount, runDate),
+          }),
+        })));
+
+        if (jsonMode) {
+          console.log(JSON.stringify({ dryRun: true, estimate, requests }, null, 2));
+        } else {
+          for (const request of requests) {
+            const target = request.endpoint ? ` → ${request.endpoint}` : '';
+            console.log(chalk.bold(`\n[${request.index}/${variationCount}] ${request.model} (${request.provider})${target}`));
+            console.log(JSON.stringify(request.payload ?? request.options, null, 2));
+          }
+          console.log(chalk.dim(`\n${describeEstimate(estimate)}`));
+          console.log(chalk.dim('Dry run: nothing was sent and no files were written.'));
         }
+      } catch (error) {
+        console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+        process.exit(1);
+      }
+      return;
+    }
 
-        // Post-processing: remove background
-        if (options.removeBg && result.outputPath) {
-          spinner.text = isMultiple
-            ? `Removing background (${i}/${variationCount})...`
-            : 'Removing background...';
-          await removeBackground(result.outputPath, result.outputPath);
-        }
+    try {
+      await approveCost(estimate, {
+        maxCost: opts.maxCost ?? config.maxCost,
+        confirmCost: config.confirmCost,
+        interactive: !!process.stdin.isTTY && !opts.yes && !jsonMode,
+      });
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      process.exit(1);
+    }
+    if (!jsonMode && estimate.total > 0) {
+      console.log(chalk.dim(describeEstimate(estimate)));
+    }
 
-        // Post-processing: add background color
-        if (options.addBg && result.outputPath) {
-          spinner.text = 'Adding background color...';
-          await addBackgroundColor(result.outputPath, result.outputPath, options.addBg);
-        }
+    const spinner = ora({
+      isSilent: jsonMode,
+      text: cells.length
+        ? `Running ${variationCount} sweep combinations...`
+        : isMultiple
+          ? `Generating ${variationCount} variations with ${chalk.cyan(options.model)}...`
+          : `Generating image with ${chalk.cyan(options.model)}...`,
+      spinner: 'dots',
+    }).start();
 
-        // Post-processing: generate thumbnail
-        if (options.thumbnail && result.outputPath) {
-          spinner.text = 'Generating thumbnail...';
-          const size = typeof options.thumbnail === 'number' ? options.thumbnail : 256;
-          await generateThumbnail(result.outputPath, { size });
+    try {
+      applyProviderLimits([...config.providerLimits, ...(opts.providerLimit ?? [])]);
+
+      let completed = 0;
+      const results = await mapConcurrent(
+        runs.map((runOptions, i) => ({ runOptions, index: i + 1 })),
+        concurrency,
+        async ({ runOptions, index }) => {
+          const outputPath = claimOutputPath(
+            variationOutputPath(outputTemplate, runOptions, index, variationCount, runDate),
+            options.clobber !== false
+          );
+
+          // Generate the image and run post-processing
+          let result: GenerationResult;
+          try {
+            result = await generateImage({ ...runOptions, output: outputPath }, (message) => {
+              if (!isMultiple) spinner.text = message;
+            });
+          } catch (error) {
+            result = { ...generationFailure(error), outputPath };
+          }
+
+          if (opts.ndjson) {
+            console.log(JSON.stringify(jsonEntry(result, index)));
+          }
+          if (isMultiple) {
+            spinner.text = `Generating ${noun} (${++completed}/${variationCount} done)...`;
+          }
+          return result;
         }
+      );
+
+      // The sheet is written even when some combinations failed; those cells are marked
+      let sheetPath: string | undefined;
+      if (cells.length && results.some((result) => result.success)) {
+        spinner.text = 'Composing contact sheet...';
+        sheetPath = await composeContactSheet(
+          cells.map((cell, i) => ({
+            row: cell.row,
+            column: cell.column,
+            path: results[i].success ? results[i].outputPath : undefined,
+            error: results[i].errorKind,
+          })),
+          sweepLabels(sweep),
+          opts.sheet || claimOutputPath(contactSheetOutputPath(outputTemplate, options, runDate), options.clobber !== false)
+        );
+      }
+
+      const failures = results.filter((result) => !result.success);
+      if (opts.json) {
+        console.log(JSON.stringify({
+          success: !failures.length,
+          results: results.map((result, i) => jsonEntry(result, i + 1)),
+          ...(sheetPath && { contactSheet: sheetPath }),
+        }, null, 2));
+        process.exit(exitCodeFor(results));
+      }
+      if (opts.ndjson) {
+        if (sheetPath) console.log(JSON.stringify({ contactSheet: sheetPath }));
+        process.exit(exitCodeFor(results));
+      }
 
-        generatedPaths.push(result.outputPath!);
+      if (failures.length) {
+        spinner.fail(chalk.red(
+          isMultiple
+            ? `${failures.length}/${variationCount} ${noun} failed (${failures[0].errorKind}): ${failures[0].error}`
+            : `Generation failed (${failures[0].errorKind}): ${failures[0].error}`
+        ));
+        const tried = failures[0].metadata?.fallbacks;
+        if (tried) console.log(chalk.dim(`  Tried: ${tried.map((attempt) => `${attempt.model} (${attempt.errorKind})`).join(', ')}`));
+        if (sheetPath) console.log(chalk.bold('  Contact sheet:'), chalk.cyan(sheetPath));
+        process.exit(exitCodeFor(results));
       }
 
+      // Every image of every run, for requests that returned several
+      const generatedPaths = results.flatMap((result) => result.outputPaths ?? [result.outputPath!]);
+
       spinner.succeed(chalk.green(
         isMultiple
-          ? `Generated ${variationCount} variations successfully!`
-          : 'Image generated successfully!'
+          ? `Generated ${variationCount} ${noun} successfully!`
+          : generatedPaths.length > 1
+            ? `Generated ${generatedPaths.length} images successfully!`
+            : 'Image generated successfully!'
       ));
 
       // Output summary
       console.log();
       console.log(chalk.dim('─'.repeat(50)));
-      if (isMultiple) {
+      if (cells.length) {
+        const { rows, columns } = sweepLabels(sweep);
+        console.log(chalk.bold('  Outputs:'));
+        cells.forEach((cell, i) => {
+          const label = [rows[cell.row], columns[cell.column]].filter(Boolean).join(', ');
+          console.log(`    ${chalk.dim(label.padEnd(36))} ${chalk.cyan(results[i].outputPath)}`);
+        });
+        console.log(chalk.bold('  Contact sheet:'), chalk.cyan(sheetPath));
+      } else if (generatedPaths.length > 1) {
         console.log(chalk.bold('  Outputs:'));
         for (const path of generatedPaths) {
           console.log(`    ${chalk.cyan(path)}`);
@@ -204,21 +520,45 @@ program
       } else {
         console.log(chalk.bold('  Output:'), chalk.cyan(generatedPaths[0]));
       }
-      console.log(chalk.bold('  Model:'), options.model);
+      const usedModels = [...new Set(results.map((result) => result.metadata?.model ?? options.model))];
+      const fellBack = results.some((result) => result.metadata?.requestedModel);
+      console.log(
+        chalk.bold('  Model:'),
+        usedModels.join(', ') + (fellBack ? chalk.yellow(` (fallback from ${options.model})`) : '')
+      );
       console.log(chalk.dim('─'.repeat(50)));
       console.log();
 
-      // Open the first image on macOS
-      if (process.platform === 'darwin' && generatedPaths[0]) {
+      // Open the first image (or the contact sheet) on macOS
+      const preview = sheetPath ?? generatedPaths[0];
+      if (process.platform === 'darwin' && preview) {
         const { spawn } = await import('child_process');
-        spawn('open', [generatedPaths[0]], { detached: true, stdio: 'ignore' }).unref();
+        spawn('open', [preview], { detached: true, stdio: 'ignore' }).unref();
       }
     } catch (error) {
-      spinner.fail(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (jsonMode) {
+        console.log(JSON.stringify({ success: false, error: message }));
+      } else {
+        spinner.fail(chalk.red(`Error: ${message}`));
+      }
       process.exit(1);
     }
   });
 
+registerBatchCommand(program);
+registerEditCommand(program);
+registerExtendCommand(program);
+registerUpscaleCommand(program);
+registerProcessCommand(program);
+registerInspectCommand(program);
+registerHistoryCommand(program);
+registerTemplatesCommand(program);
+registerServeCommand(program);
+registerMcpCommand(program);
+registerModelsCommand(program);
+registerUsageCommand(program);
+
 // Custom help
 program.addHelpText('after', `
 
@@ -232,12 +572,30 @@ ${chalk.bold('Examples:')}
   ${chalk.dim('# Generate with transparent background')}
   $ generate -m gpt-image-1 "A cute robot mascot" --transparent
 
-  ${chalk.dim('# Edit an existing image (gpt-image-1.5)')}
-  $ generate -m gpt-image-1.5 "Add a hat to the person" -r ./photo.png
+  ${chalk.dim('# Remove a flat background offline')}
+  $ generate "A cute robot mascot on a white background" --remove-bg=local
+
+  ${chalk.dim('# Edit an existing image, or only the area of a mask')}
+  $ generate edit ./photo.png "Add a hat to the person"
+  $ generate edit ./photo.png "Replace the mug with a teapot" --mask ./mug-mask.png -m gpt-image-1
+
+  ${chalk.dim('# Extend a square image to a cinematic 21:9')}
+  $ generate extend ./square.png --to 21:9
+
+  ${chalk.dim('# Upscale after generating, or upscale an existing image')}
+  $ generate -m flux "Mountain lake at dawn" --upscale 4x
+  $ generate upscale ./photo.png -x 4x
+
+  ${chalk.dim('# Run a post-processing chain on new or existing images')}
+  $ generate "Product shot of a sneaker" --post "remove-bg:local,trim,pad:64,format:webp:85"
+  $ generate process ./shots/*.png --post "trim,resize:1200x"
 
   ${chalk.dim('# Generate with specific aspect ratio')}
   $ generate -m imagen-4 "Cinematic scene" -a 21:9
 
+  ${chalk.dim('# Draft on a local Stable Diffusion server (Automatic1111 or ComfyUI)')}
+  $ generate -m a1111 "Isometric office" --steps 30 -n "blurry"
+
   ${chalk.dim('# Generate with reference image')}
   $ generate -m flux "Same style as reference" --reference ./reference.png
 
@@ -247,6 +605,50 @@ ${chalk.bold('Examples:')}
   ${chalk.dim('# Generate 5 variations')}
   $ generate "Abstract art" --variations 5 -o ~/Downloads/abstract.png
 
+  ${chalk.dim('# Compare models and guidance side by side on a labeled contact sheet')}
+  $ generate "Ceramic mug on a desk" --sweep model=flux,imagen-4 --sweep guidance=2,3.5,5 --seed 7
+
+  ${chalk.dim('# Name outputs from a template and never overwrite existing files')}
+  $ generate "Isometric office" -o "out/{date}/{slug}-{model}-{n}.{ext}" --variations 3 --no-clobber
+
+  ${chalk.dim('# Build the prompt from a template in ~/.config/img-gen/templates')}
+  $ generate --template product-shot --var surface=marble --var lighting=softbox
+
+  ${chalk.dim('# Use a named profile from your config file')}
+  $ generate "Quarterly roadmap illustration" --profile blog-hero
+
+  ${chalk.dim('# Run every job in a manifest and write a results report')}
+  $ generate batch jobs.yaml --out-dir ./assets
+
+  ${chalk.dim('# Serve a REST API for other tools')}
+  $ generate serve --port 8080 --token "$IMG_GEN_SERVER_TOKEN"
+
+  ${chalk.dim('# Expose generation as MCP tools for coding agents')}
+  $ generate mcp --out-dir ./assets
+
+  ${chalk.dim('# See which options and values each model supports')}
+  $ generate models --details
+
+  ${chalk.dim('# Print the exact provider request without sending it')}
+  $ generate -m flux "Neon city" --seed 7 --dry-run
+
+  ${chalk.dim('# Try the CLI offline with deterministic placeholder images')}
+  $ generate -m mock "Neon city" --variations 3
+
+  ${chalk.dim('# Cap what a run may cost, and see estimated spend per model and user')}
+  $ generate -m flux-pro "Product hero" --variations 10 --max-cost 0.5
+  $ generate usage --since 7d
+
+  ${chalk.dim('# Show the prompt and settings that produced an image')}
+  $ generate inspect ~/Downloads/abstract-v2.png
+
+  ${chalk.dim('# Find an earlier generation and reproduce it by id')}
+  $ generate history search "isometric office"
+  $ generate --reproduce 3f9a2c1b7e -m flux
+
+  ${chalk.dim('# Re-roll an earlier image with a different seed')}
+  $ generate --reproduce ~/Downloads/abstract-v2.png --seed 42
+
 ${chalk.bold('Stdin Support:')}
   ${chalk.dim('# Pipe prompt from file or other tools')}
   $ cat prompt.txt | generate
@@ -260,7 +662,26 @@ ${chalk.bold('Environment Variables:')}
   GOOGLE_API_KEY         Required for Gemini/Imagen models
   OPENAI_API_KEY         Required for GPT-Image models
   REPLICATE_API_TOKEN    Required for Flux models
-  REMOVE_BG_API_KEY      Required for --remove-bg feature
+  REMOVE_BG_API_KEY      Required for --remove-bg=removebg
+  IMG_GEN_A1111_URL, IMG_GEN_COMFYUI_URL
+                         Local Stable Diffusion servers for the a1111 and comfyui models
+  IMG_GEN_MODEL, IMG_GEN_ASPECT_RATIO, IMG_GEN_SIZE, IMG_GEN_OUTPUT,
+  IMG_GEN_FALLBACK, IMG_GEN_PROFILE
+                         Defaults for the matching flags (optional)
+  IMG_GEN_TEMPLATES_DIR  Template directory (default: ~/.config/img-gen/templates)
+  IMG_GEN_PLUGINS_DIR    Provider plugin directory (default: ~/.config/img-gen/plugins)
+  IMG_GEN_PROJECT_PLUGINS=1
+                         Load the plugins listed in a project .imggenrc
+  IMG_GEN_LEDGER_FILE    Spend ledger (default: ~/.local/share/img-gen/spend.jsonl)
+  IMG_GEN_USER           Name recorded in the spend ledger (default: login name)
+
+${chalk.bold('Configuration:')}
+  Settings are layered: ~/.config/img-gen/config.toml < nearest .imggenrc
+  < --profile < IMG_GEN_* environment < command-line flags.
 `);
 
-program.parse();
+// A bare --remove-bg is followed by the prompt more often than by a backend, so only
+// a backend name is taken as its value
+program.parse(process.argv.map((arg, i, args) =>
+  arg === '--remove-bg' && !(BACKGROUND_REMOVERS as readonly string[]).includes(args[i + 1]) ? '--remove-bg=auto' : arg
+));
@@ -0,0 +1,230 @@
+import { Command, Option } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { mkdir } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { generateImage, generationFailure } from '../pipeline';
+import { applyProviderLimits } from '../providers';
+import { DEFAULT_OPTIONS } from '../types';
+import type { GenerationErrorKind, PostProcessingStep } from '../types';
+import { ERROR_EXIT_CODES, exitCodeFor } from '../providers/errors';
+import { checkOptions } from '../providers/capabilities';
+import { mapConcurrent } from '../utils/concurrency';
+import { claimOutputPath, variationOutputPath } from '../utils/output';
+import { approveCost, costliestAttempt, describeEstimate, estimateCost, setPricing } from '../utils/cost';
+import { ConfigError, loadConfig, resolveConfig, splitConfig } from '../utils/config';
+import { loadManifest, ManifestError } from '../utils/manifest';
+import type { BatchJob } from '../utils/manifest';
+
+export interface BatchJobReport {
+  id: string;
+  model: string;
+  prompt: string;
+  success: boolean;
+  outputPath?: string;
+  /** Every image saved, when the job asked for more than one */
+  outputPaths?: string[];
+  thumbnailPath?: string;
+  error?: string;
+  errorKind?: GenerationErrorKind;
+  attempts?: number;
+  usedModel?: string;
+  providerModel?: string;
+  seed?: number;
+  postProcessing?: PostProcessingStep[];
+  historyId?: string;
+  duration: number;
+}
+
+export interface BatchReport {
+  manifest: string;
+  startedAt: string;
+  finishedAt: string;
+  total: number;
+  succeeded: number;
+  failed: number;
+  jobs: BatchJobReport[];
+}
+
+/**
+ * Run one job to completion, capturing any failure in the report instead of throwing
+ */
+async function runJob({ id, options }: BatchJob, runDate: Date): Promise<BatchJobReport> {
+  const jobStart = Date.now();
+  const base = { id, model: options.model, prompt: options.prompt };
+
+  try {
+    const output = claimOutputPath(
+      variationOutputPath(options.output!, options, 1, 1, runDate),
+      options.clobber !== false
+    );
+    const result = await generateImage({ ...options, output });
+    return {
+      ...base,
+      success: result.success,
+      outputPath: result.outputPath,
+      ...(result.outputPaths && result.outputPaths.length > 1 && { outputPaths: result.outputPaths }),
+      thumbnailPath: result.thumbnailPath,
+      error: result.error,
+      errorKind: result.errorKind,
+      attempts: result.metadata?.attempts,
+      usedModel: result.metadata?.model,
+      providerModel: result.metadata?.providerModel,
+      seed: result.metadata?.seed,
+      postProcessing: result.postProcessing,
+      historyId: result.metadata?.historyId,
+      duration: Date.now() - jobStart,
+    };
+  } catch (error) {
+    const { error: message, errorKind } = generationFailure(error);
+    return {
+      ...base,
+      success: false,
+      error: message,
+      errorKind,
+      duration: Date.now() - jobStart,
+    };
+  }
+}
+
+export function registerBatchCommand(program: Command): void {
+  program
+    .command('batch')
+    .description('Generate images for every job in a JSONL or YAML manifest')
+    .argument('<manifest>', 'Path to a .jsonl, .yaml or .yml job manifest')
+    .option('--out-dir <dir>', 'Directory for jobs without an explicit output', './batch-output')
+    .option('--report <path>', 'Results report path (default: <out-dir>/batch-report.json)')
+    .option('--concurrency <n>', 'Maximum jobs running in parallel', (val) => {
+      const n = parseInt(val);
+      if (isNaN(n) || n < 1) throw new Error('Concurrency must be at least 1');
+      return n;
+    }, DEFAULT_OPTIONS.concurrency)
+    .option('--provider-limit <spec...>', 'Per-provider limit as provider=concurrency[/rpm], e.g. replicate=4/60')
+    .option('--no-clobber', 'Never overwrite existing files; add a numeric suffix instead')
+    .addOption(
+      new Option('--profile <name>', 'Apply a named config profile as defaults for every job')
+        .env('IMG_GEN_PROFILE')
+    )
+    .option('--strict', 'Refuse to start if any job sets an option its model ignores or adjusts')
+    .option('--max-cost <usd>', 'Refuse to start if the estimated cost of all jobs is above this many USD', (val) => {
+      const n = parseFloat(val);
+      if (isNaN(n) || n < 0) throw new Error('Max cost must be an amount in USD');
+      return n;
+    })
+    .option('-y, --yes', 'Do not ask for confirmation before expensive batches')
+    .option('--json', 'Print the results report as JSON instead of the summary (no spinner)')
+    .option('--ndjson', 'Stream one JSON job report per line as each job finishes')
+    .action(async (manifestPath: string, opts, command: Command) => {
+      const outDir = resolve(opts.outDir);
+      const reportPath = resolve(opts.report || join(outDir, 'batch-report.json'));
+
+      let jobs;
+      let concurrency: number = opts.concurrency;
+      let maxCost: number | undefined = opts.maxCost;
+      let confirmCost: number | undefined;
+      try {
+        const config = splitConfig(resolveConfig(await loadConfig(), opts.profile));
+        setPricing(config.pricing);
+        maxCost ??= config.maxCost;
+        confirmCost = config.confirmCost;
+        if (command.getOptionValueSource('concurrency') !== 'cli' && config.concurrency) {
+          concurrency = config.concurrency;
+        }
+        applyProviderLimits([...config.providerLimits, ...(opts.providerLimit ?? [])]);
+        jobs = await loadManifest(manifestPath, outDir, config.options);
+        if (!opts.clobber) {
+          for (const job of jobs) job.options.clobber = false;
+        }
+      } catch (error) {
+        if (error instanceof ManifestError || error instanceof ConfigError) {
+          console.error(chalk.red(error.message));
+        } else {
+          console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+        }
+        process.exit(1);
+      }
+
+      // Check every job against its model before spending anything
+      const blocking: string[] = [];
+      jobs.forEach(({ id, options }, i) => {
+        for (const issue of checkOptions(options).issues) {
+          const message = `job ${i + 1} (${id}): ${issue.message}`;
+          if (opts.strict || issue.severity === 'error') {
+            blocking.push(message);
+          } else {
+            console.warn(chalk.yellow(`Warning: ${message}`));
+          }
+        }
+      });
+      if (blocking.length) {
+        console.error(chalk.red(`Invalid batch manifest:\n${blocking.map((issue) => `  - ${issue}`).join('\n')}`));
+        process.exit(ERROR_EXIT_CODES.invalid_params);
+      }
+
+      const jsonMode = !!(opts.json || opts.ndjson);
+      const estimate = estimateCost(jobs.map(({ options }) => costliestAttempt(options)));
+      try {
+        await approveCost(estimate, { maxCost, confirmCost, interactive: !!process.stdin.isTTY && !opts.yes && !jsonMode });
+      } catch (error) {
+        console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+        process.exit(1);
+      }
+      if (!jsonMode && estimate.total > 0) {
+        console.log(chalk.dim(describeEstimate(estimate)));
+      }
+
+      const startedAt = new Date();
+      const spinner = ora({ text: `Running ${jobs.length} jobs...`, spinner: 'dots', isSilent: jsonMode }).start();
+      let completed = 0;
+
+      const results = await mapConcurrent(jobs, concurrency, async (job, i) => {
+        const report = await runJob(job, startedAt);
+        const prefix = `[${i + 1}/${jobs.length}] ${job.id}`;
+
+        completed++;
+        if (opts.ndjson) {
+          console.log(JSON.stringify(report));
+        }
+        if (report.success) {
+          spinner.succeed(`${prefix} ${chalk.cyan(report.outputPath)}`);
+        } else {
+          spinner.fail(`${prefix} ${chalk.red(report.error)}`);
+        }
+        if (completed < jobs.length) {
+          spinner.start(`Running ${jobs.length} jobs (${completed} done)...`);
+        }
+        return report;
+      });
+
+      const succeeded = results.filter((r) => r.success).length;
+      const report: BatchReport = {
+        manifest: resolve(manifestPath),
+        startedAt: startedAt.toISOString(),
+        finishedAt: new Date().toISOString(),
+        total: results.length,
+        succeeded,
+        failed: results.length - succeeded,
+        jobs: results,
+      };
+
+      await mkdir(dirname(reportPath), { recursive: true });
+      await Bun.write(reportPath, JSON.stringify(report, null, 2) + '\n');
+
+      if (opts.json) {
+        console.log(JSON.stringify(report, null, 2));
+      }
+      if (jsonMode) {
+        process.exit(exitCodeFor(results));
+      }
+
+      console.log();
+      console.log(chalk.dim('─'.repeat(50)));
+      console.log(chalk.bold('  Succeeded:'), chalk.green(String(report.succeeded)));
+      console.log(chalk.bold('  Failed:'), report.failed ? chalk.red(String(report.failed)) : '0');
+      console.log(chalk.bold('  Report:'), chalk.cyan(reportPath));
+      console.log(chalk.dim('─'.repeat(50)));
+      console.log();
+
+      if (report.failed) process.exit(exitCodeFor(results));
+    });
+}
@@ -0,0 +1,190 @@
+import { Command, Option } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { existsSync } from 'fs';
+import { basename, dirname, extname, join } from 'path';
+import { describeGeneration, generateImage, generationFailure } from '../pipeline';
+import { applyProviderLimits, isKnownModel, modelIds } from '../providers';
+import { checkOptions, defaultEditModel, editModels } from '../providers/capabilities';
+import { parseFallbackList } from '../providers/fallback';
+import { ERROR_EXIT_CODES, exitCodeFor } from '../providers/errors';
+import { claimOutputPath, variationOutputPath } from '../utils/output';
+import { approveCost, costliestAttempt, describeEstimate, estimateCost, setPricing } from '../utils/cost';
+import { ConfigError, loadConfig, resolveConfig, splitConfig } from '../utils/config';
+import { sourceAspectRatio } from '../utils/canvas';
+import type { GenerateOptions, GenerationResult } from '../types';
+import { DEFAULT_OPTIONS } from '../types';
+
+function fail(message: string, code = 1): never {
+  console.error(chalk.red(`Error: ${message}`));
+  process.exit(code);
+}
+
+export function registerEditCommand(program: Command): void {
+  program
+    .command('edit')
+    .description('Edit an existing image from an instruction, optionally only inside a mask')
+    .argument('<image>', 'Image to edit')
+    .argument('<instruction...>', 'What to change, e.g. "make the sky stormy"')
+    .option('-m, --model <model>', 'Model to edit with (see: generate models --details)')
+    .option('--mask <png>', 'Only change the white (or transparent) area of this mask')
+    .option('--strength <0-1>', 'How much may change: 0 keeps the source, 1 replaces it (where supported)', parseFloat)
+    .option('-r, --reference <path...>', 'Additional reference image(s) (repeatable)')
+    .option('-o, --output <path>', 'Output path or template (default: <image>-edited.png next to the source)')
+    .option('-n, --negative-prompt <text>', 'Negative prompt (things to avoid)')
+    .option('--seed <number>', 'Random seed for reproducibility', parseInt)
+    .addOption(
+      new Option('-q, --quality <quality>', 'Image quality (OpenAI models)').choices(['standard', 'hd'])
+    )
+    .option('--num-images <number>', 'Edited versions to return from one request', (val) => {
+      const n = parseInt(val);
+      if (isNaN(n) || n < 1) throw new Error('Number of images must be at least 1');
+      return n;
+    })
+    .option('--fallback <models>', 'Comma-separated models to try if the edit fails; models that cannot edit are skipped', parseFallbackList)
+    .option('--retries <n>', 'Retries for rate-limit, network and availability errors (default: 3)', parseInt)
+    .option('--provider-limit <spec...>', 'Per-provider limit as provider=concurrency[/rpm], e.g. replicate=4/60')
+    .addOption(
+      new Option('--profile <name>', 'Apply a named profile from the config file').env('IMG_GEN_PROFILE')
+    )
+    .option('--no-clobber', 'Never overwrite existing files; add a numeric suffix instead')
+    .option('--no-metadata', 'Do not embed prompt and settings metadata in the image')
+    .option('--max-cost <usd>', 'Refuse to start if the estimated cost is above this many USD', parseFloat)
+    .option('-y, --yes', 'Do not ask for confirmation before expensive edits')
+    .option('--dry-run', 'Print the request the provider would receive, without calling it')
+    .option('--strict', 'Fail instead of warning when the model ignores or adjusts an option')
+    .option('--json', 'Print the result as JSON instead of the summary (no spinner)')
+    .action(async (image: string, instruction: string[], opts) => {
+      for (const [path, label] of [[image, 'Image'], [opts.mask, 'Mask'], ...(opts.reference ?? []).map((ref: string) => [ref, 'Reference image'])]) {
+        if (path && !existsSync(path)) fail(`${label} not found: ${path}`);
+      }
+
+      let config: ReturnType<typeof splitConfig>;
+      try {
+        config = splitConfig(resolveConfig(await loadConfig(), opts.profile));
+        setPricing(config.pricing);
+        applyProviderLimits([...config.providerLimits, ...(opts.providerLimit ?? [])]);
+      } catch (error) {
+        console.error(chalk.red(error instanceof ConfigError ? error.message : `Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+        process.exit(1);
+      }
+
+      // Flags the user typed; config supplies defaults for the rest. Output, size and
+      // aspect ratio come from the source image rather than config.
+      const given: Partial<GenerateOptions> = Object.fromEntries(Object.entries({
+        model: opts.model,
+        referenceImages: opts.reference,
+        negativePrompt: opts.negativePrompt,
+        seed: opts.seed,
+        quality: opts.quality,
+        numImages: opts.numImages,
+        strength: opts.strength,
+        retries: opts.retries,
+        fallback: opts.fallback,
+      }).filter(([, value]) => value !== undefined));
+      const { output, size, aspectRatio, model: configModel, ...defaults } = config.options;
+
+      const edit = { editImage: image, mask: opts.mask };
+      const model = opts.model ?? defaultEditModel(configModel, edit);
+      if (!model) fail(`No model can carry out this edit; models that edit images: ${editModels().join(', ')}`);
+      if (!isKnownModel(model)) fail(`Unknown model "${model}". Available models: ${modelIds().join(', ')}`);
+
+      const runDate = new Date();
+      const options: GenerateOptions = {
+        quality: DEFAULT_OPTIONS.quality,
+        ...defaults,
+        ...given,
+        ...edit,
+        model,
+        prompt: instruction.join(' '),
+        aspectRatio: await sourceAspectRatio(image),
+        embedMetadata: opts.metadata,
+        clobber: opts.clobber,
+      };
+      options.output = variationOutputPath(
+        opts.output ?? join(dirname(image), `${basename(image, extname(image))}-edited.png`),
+        options, 1, 1, runDate
+      );
+
+      // editImage and mask are always checked: an edit that can't happen is an error
+      const requested = new Set([...Object.keys(given), ...Object.keys(defaults), 'editImage', 'mask'] as Array<keyof GenerateOptions>);
+      const { issues } = checkOptions(options, requested);
+      const blocking = issues.filter((issue) => opts.strict || issue.severity === 'error');
+      for (const issue of issues) {
+        if (!blocking.includes(issue)) console.warn(chalk.yellow(`Warning: ${issue.message}`));
+      }
+      if (blocking.length) {
+        for (const issue of blocking) console.error(chalk.red(`Error: ${issue.message}`));
+        process.exit(ERROR_EXIT_CODES.invalid_params);
+      }
+
+      const estimate = estimateCost([costliestAttempt(options)]);
+
+      if (opts.dryRun) {
+        try {
+          const request = await describeGeneration(options);
+          if (opts.json) {
+            console.log(JSON.stringify({ dryRun: true, estimate, requests: [request] }, null, 2));
+          } else {
+            const target = request.endpoint ? ` → ${request.endpoint}` : '';
+            console.log(chalk.bold(`\n${request.model} (${request.provider})${target}`));
+            console.log(JSON.stringify(request.payload ?? request.options, null, 2));
+            console.log(chalk.dim(`\n${describeEstimate(estimate)}`));
+            console.log(chalk.dim('Dry run: nothing was sent and no files were written.'));
+          }
+        } catch (error) {
+          fail(error instanceof Error ? error.message : 'Unknown error');
+        }
+        return;
+      }
+
+      try {
+        await approveCost(estimate, {
+          maxCost: opts.maxCost ?? config.maxCost,
+          confirmCost: config.confirmCost,
+          interactive: !!process.stdin.isTTY && !opts.yes && !opts.json,
+        });
+      } catch (error) {
+        fail(error instanceof Error ? error.message : 'Unknown error');
+      }
+
+      const spinner = ora({
+        isSilent: !!opts.json,
+        text: `Editing ${chalk.cyan(image)} with ${chalk.cyan(options.model)}...`,
+        spinner: 'dots',
+      }).start();
+
+      const outputPath = claimOutputPath(options.output, options.clobber !== false);
+      let result: GenerationResult;
+      try {
+        result = await generateImage({ ...options, output: outputPath }, (message) => {
+          spinner.text = message;
+        });
+      } catch (error) {
+        result = { ...generationFailure(error), outputPath };
+      }
+
+      if (opts.json) {
+        console.log(JSON.stringify(result, null, 2));
+        process.exit(exitCodeFor([result]));
+      }
+
+      if (!result.success) {
+        spinner.fail(chalk.red(`Edit failed (${result.errorKind}): ${result.error}`));
+        process.exit(exitCodeFor([result]));
+      }
+
+      const outputs = result.outputPaths ?? [result.outputPath!];
+      spinner.succeed(chalk.green(outputs.length > 1 ? `Edited ${outputs.length} versions successfully!` : 'Image edited successfully!'));
+      console.log();
+      console.log(chalk.dim('─'.repeat(50)));
+      console.log(chalk.bold('  Source:'), image);
+      console.log(chalk.bold(outputs.length > 1 ? '  Outputs:' : '  Output:'), outputs.map((path) => chalk.cyan(path)).join('\n           '));
+      console.log(
+        chalk.bold('  Model:'),
+        (result.metadata?.model ?? options.model) + (result.metadata?.requestedModel ? chalk.yellow(` (fallback from ${options.model})`) : '')
+      );
+      console.log(chalk.dim('─'.repeat(50)));
+      console.log();
+    });
+}
@@ -0,0 +1,209 @@
+import { Command, Option } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import sharp from 'sharp';
+import { existsSync } from 'fs';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { basename, dirname, extname, join } from 'path';
+import { describeGeneration, generateImage, generationFailure } from '../pipeline';
+import { applyProviderLimits, getModelDefinition, isKnownModel, modelIds } from '../providers';
+import { checkOptions, defaultEditModel, editModels } from '../providers/capabilities';
+import { ERROR_EXIT_CODES, exitCodeFor } from '../providers/errors';
+import { claimOutputPath, variationOutputPath } from '../utils/output';
+import { approveCost, costliestAttempt, describeEstimate, estimateCost, setPricing } from '../utils/cost';
+import { ConfigError, loadConfig, resolveConfig, splitConfig } from '../utils/config';
+import { buildProvenance, embedProvenance } from '../utils/provenance';
+import { ANCHORS, layoutCanvas, prepareExtension, stitchExtension } from '../utils/canvas';
+import type { Anchor } from '../utils/canvas';
+import type { AspectRatio, GenerateOptions, GenerationResult } from '../types';
+import { ALL_ASPECT_RATIOS } from '../types';
+
+const DEFAULT_FILL_PROMPT =
+  'Extend the image beyond its edges, continuing the scene seamlessly with matching style, lighting and perspective';
+
+function fail(message: string, code = 1): never {
+  console.error(chalk.red(`Error: ${message}`));
+  process.exit(code);
+}
+
+export function registerExtendCommand(program: Command): void {
+  program
+    .command('extend')
+    .description('Outpaint an image onto a wider or taller canvas of another aspect ratio')
+    .argument('<image>', 'Image to extend')
+    .argument('[prompt...]', 'What to fill the new area with (default: continue the scene)')
+    .addOption(
+      new Option('--to <ratio>', 'Target aspect ratio').choices(ALL_ASPECT_RATIOS).makeOptionMandatory()
+    )
+    .addOption(
+      new Option('--anchor <position>', 'Where the original sits on the new canvas').choices(ANCHORS).default('center')
+    )
+    .option('-m, --model <model>', 'Model that supports --mask (see: generate models --details)')
+    .option('-o, --output <path>', 'Output path or template (default: <image>-<ratio>.png next to the source)')
+    .option('-n, --negative-prompt <text>', 'Negative prompt (things to avoid)')
+    .option('--seed <number>', 'Random seed for reproducibility', parseInt)
+    .option('--retries <n>', 'Retries for rate-limit, network and availability errors (default: 3)', parseInt)
+    .option('--provider-limit <spec...>', 'Per-provider limit as provider=concurrency[/rpm], e.g. replicate=4/60')
+    .addOption(
+      new Option('--profile <name>', 'Apply a named profile from the config file').env('IMG_GEN_PROFILE')
+    )
+    .option('--no-clobber', 'Never overwrite existing files; add a numeric suffix instead')
+    .option('--no-metadata', 'Do not embed prompt and settings metadata in the image')
+    .option('--max-cost <usd>', 'Refuse to start if the estimated cost is above this many USD', parseFloat)
+    .option('-y, --yes', 'Do not ask for confirmation before expensive runs')
+    .option('--dry-run', 'Print the request the provider would receive, without calling it')
+    .option('--strict', 'Fail instead of warning when the model ignores or adjusts an option')
+    .option('--json', 'Print the result as JSON instead of the summary (no spinner)')
+    .action(async (image: string, promptArgs: string[], opts) => {
+      if (!existsSync(image)) fail(`Image not found: ${image}`);
+
+      const to = opts.to as AspectRatio;
+      const anchor = opts.anchor as Anchor;
+      const { width, height } = await sharp(image).metadata();
+      if (!width || !height) fail(`Cannot read the size of ${image}`);
+      const layout = layoutCanvas(width, height, to, anchor);
+      if (layout.full.width === width && layout.full.height === height) {
+        fail(`${image} is already ${to}; nothing to extend`);
+      }
+
+      let config: ReturnType<typeof splitConfig>;
+      try {
+        config = splitConfig(resolveConfig(await loadConfig(), opts.profile));
+        setPricing(config.pricing);
+        applyProviderLimits([...config.providerLimits, ...(opts.providerLimit ?? [])]);
+      } catch (error) {
+        console.error(chalk.red(error instanceof ConfigError ? error.message : `Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+        process.exit(1);
+      }
+
+      // The canvas and mask are written to a scratch directory; the names are needed
+      // before then for the dry run
+      const workDir = opts.dryRun ? join(tmpdir(), 'img-gen-extend') : await mkdtemp(join(tmpdir(), 'img-gen-extend-'));
+      const canvasPath = join(workDir, 'canvas.png');
+      const maskPath = join(workDir, 'mask.png');
+
+      const model = opts.model ?? defaultEditModel(config.options.model, { editImage: canvasPath, mask: maskPath, aspectRatio: to });
+      if (!model) fail(`No model can outpaint to ${to}; models that support --mask: ${editModels(true).join(', ')}`);
+      if (!isKnownModel(model)) fail(`Unknown model "${model}". Available models: ${modelIds().join(', ')}`);
+
+      // The model must paint the whole canvas at the target shape, or stitching would distort it
+      const { aspectRatios } = getModelDefinition(model)!.parameters;
+      if (!aspectRatios.includes(to)) {
+        fail(`${model} cannot produce ${to} images (supported: ${aspectRatios.join(', ')})`, ERROR_EXIT_CODES.invalid_params);
+      }
+
+      const options: GenerateOptions = {
+        model,
+        prompt: promptArgs.join(' ') || DEFAULT_FILL_PROMPT,
+        editImage: canvasPath,
+        mask: maskPath,
+        aspectRatio: to,
+        negativePrompt: opts.negativePrompt,
+        seed: opts.seed,
+        retries: opts.retries ?? config.options.retries,
+        // Metadata goes on the stitched image instead
+        embedMetadata: false,
+        clobber: opts.clobber,
+      };
+      const outputTemplate = opts.output ?? join(dirname(image), `${basename(image, extname(image))}-${to.replace(':', 'x')}.png`);
+      options.output = variationOutputPath(outputTemplate, options, 1, 1, new Date());
+
+      const requested = new Set(['editImage', 'mask', 'negativePrompt', 'seed'] as Array<keyof GenerateOptions>);
+      const { issues } = checkOptions(options, requested);
+      const blocking = issues.filter((issue) => opts.strict || issue.severity === 'error');
+      for (const issue of issues) {
+        if (!blocking.includes(issue)) console.warn(chalk.yellow(`Warning: ${issue.message}`));
+      }
+      if (blocking.length) {
+        for (const issue of blocking) console.error(chalk.red(`Error: ${issue.message}`));
+        process.exit(ERROR_EXIT_CODES.invalid_params);
+      }
+
+      const estimate = estimateCost([costliestAttempt(options)]);
+
+      if (opts.dryRun) {
+        try {
+          const request = await describeGeneration(options);
+          if (opts.json) {
+            console.log(JSON.stringify({ dryRun: true, estimate, layout, requests: [request] }, null, 2));
+          } else {
+            const target = request.endpoint ? ` → ${request.endpoint}` : '';
+            console.log(chalk.bold(`\n${request.model} (${request.provider})${target}`));
+            console.log(JSON.stringify(request.payload ?? request.options, null, 2));
+            console.log(chalk.dim(`\nCanvas: ${layout.working.width}x${layout.working.height} sent, ${layout.full.width}x${layout.full.height} saved`));
+            console.log(chalk.dim(describeEstimate(estimate)));
+            console.log(chalk.dim('Dry run: nothing was sent and no files were written.'));
+          }
+        } catch (error) {
+          fail(error instanceof Error ? error.message : 'Unknown error');
+        }
+        return;
+      }
+
+      try {
+        await approveCost(estimate, {
+          maxCost: opts.maxCost ?? config.maxCost,
+          confirmCost: config.confirmCost,
+          interactive: !!process.stdin.isTTY && !opts.yes && !opts.json,
+        });
+      } catch (error) {
+        await rm(workDir, { recursive: true, force: true });
+        fail(error instanceof Error ? error.message : 'Unknown error');
+      }
+
+      const spinner = ora({
+        isSilent: !!opts.json,
+        text: `Extending ${chalk.cyan(image)} to ${to} with ${chalk.cyan(model)}...`,
+        spinner: 'dots',
+      }).start();
+
+      // The model's output is written to the final path, then replaced by the stitched image
+      const outputPath = claimOutputPath(options.output, options.clobber !== false);
+      let result: GenerationResult;
+      try {
+        await prepareExtension(image, layout, canvasPath, maskPath);
+        result = await generateImage({ ...options, output: outputPath }, (message) => {
+          spinner.text = message;
+        }, async (generated) => {
+          spinner.text = 'Stitching at full resolution...';
+          await stitchExtension(generated.outputPath!, image, layout, outputPath);
+          generated.outputPath = outputPath;
+          generated.outputPaths = [outputPath];
+          // History, like the metadata, names the original image rather than the scratch canvas
+          return { editImage: image, mask: undefined };
+        });
+
+        if (result.success) {
+          if (opts.metadata !== false) {
+            // Record the original image as the source rather than the scratch canvas
+            await embedProvenance(outputPath, await buildProvenance({ ...options, editImage: image, mask: undefined }, result));
+            result.postProcessing = [...result.postProcessing ?? [], 'metadata'];
+          }
+        }
+      } catch (error) {
+        result = { ...generationFailure(error), outputPath };
+      } finally {
+        await rm(workDir, { recursive: true, force: true });
+      }
+
+      if (opts.json) {
+        console.log(JSON.stringify({ ...result, source: image, aspectRatio: to, anchor, width: layout.full.width, height: layout.full.height }, null, 2));
+        process.exit(exitCodeFor([result]));
+      }
+
+      if (!result.success) {
+        spinner.fail(chalk.red(`Extension failed${result.errorKind ? ` (${result.errorKind})` : ''}: ${result.error}`));
+        process.exit(exitCodeFor([result]));
+      }
+
+      spinner.succeed(chalk.green(`Extended to ${to} successfully!`));
+      console.log();
+      console.log(chalk.dim('─'.repeat(50)));
+      console.log(chalk.bold('  Source:'), `${image} (${width}x${height})`);
+      console.log(chalk.bold('  Output:'), `${chalk.cyan(outputPath)} (${layout.full.width}x${layout.full.height})`);
+      console.log(chalk.bold('  Model:'), result.metadata?.model ?? model);
+      console.log(chalk.dim('─'.repeat(50)));
+      console.log();
+    });
+}
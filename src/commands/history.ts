@@ -0,0 +1,114 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import {
+  findHistoryEntry,
+  historyPath,
+  readHistory,
+  removeHistoryEntries,
+  searchHistory,
+} from '../utils/history';
+import type { HistoryEntry } from '../utils/history';
+
+function truncate(text: string, length: number): string {
+  const oneLine = text.replace(/\s+/g, ' ').trim();
+  return oneLine.length > length ? `${oneLine.slice(0, length - 1)}…` : oneLine;
+}
+
+function printEntries(entries: HistoryEntry[]): void {
+  if (!entries.length) {
+    console.log(chalk.dim('No matching history entries.'));
+    return;
+  }
+
+  for (const entry of entries) {
+    const status = entry.success ? chalk.green('✔') : chalk.red('✖');
+    const date = entry.timestamp.slice(0, 16).replace('T', ' ');
+    console.log(
+      `${status} ${chalk.cyan(entry.id)}  ${chalk.dim(date)}  ${entry.model.padEnd(15)} ${truncate(entry.prompt, 60)}`
+    );
+  }
+}
+
+function fail(error: unknown): never {
+  console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+  process.exit(1);
+}
+
+export function registerHistoryCommand(program: Command): void {
+  const history = program
+    .command('history')
+    .description(`Browse past generations (stored in ${historyPath()})`);
+
+  history
+    .command('list')
+    .description('List recent generations, newest first')
+    .option('-l, --limit <n>', 'Number of entries to show', (val) => parseInt(val), 20)
+    .option('--failed', 'Only show failed generations')
+    .action(async (opts) => {
+      let entries = (await readHistory()).reverse();
+      if (opts.failed) entries = entries.filter((entry) => !entry.success);
+      printEntries(entries.slice(0, opts.limit));
+    });
+
+  history
+    .command('search')
+    .description('Find generations whose prompt contains every word of the query')
+    .argument('<text...>', 'Search text')
+    .option('-l, --limit <n>', 'Number of entries to show', (val) => parseInt(val), 20)
+    .action(async (text: string[], opts) => {
+      printEntries((await searchHistory(text.join(' '))).slice(0, opts.limit));
+    });
+
+  history
+    .command('show')
+    .description('Show the full record of a generation')
+    .argument('<id>', 'History id (or unique prefix)')
+    .action(async (id: string) => {
+      let entry;
+      try {
+        entry = await findHistoryEntry(id);
+      } catch (error) {
+        fail(error);
+      }
+      if (!entry) fail(new Error(`No history entry with id "${id}"`));
+
+      console.log();
+      console.log(chalk.dim('─'.repeat(50)));
+      console.log(chalk.bold('  Id:'), chalk.cyan(entry.id));
+      console.log(chalk.bold('  Date:'), entry.timestamp);
+      console.log(chalk.bold('  Model:'), entry.model);
+      console.log(chalk.bold('  Prompt:'), entry.prompt);
+      console.log(chalk.bold('  Status:'), entry.success ? chalk.green('success') : chalk.red(`failed (${entry.errorKind})`));
+      if (entry.outputPath) console.log(chalk.bold('  Output:'), chalk.cyan(entry.outputPath));
+      if (entry.error) console.log(chalk.bold('  Error:'), entry.error);
+      console.log(chalk.bold('  Duration:'), `${(entry.duration / 1000).toFixed(1)}s`);
+      console.log(chalk.bold('  Options:'));
+      for (const [key, value] of Object.entries(entry.options)) {
+        if (value !== undefined && key !== 'prompt' && key !== 'model') {
+          console.log(`    ${chalk.dim(key)}: ${JSON.stringify(value)}`);
+        }
+      }
+      console.log(chalk.dim('─'.repeat(50)));
+      console.log();
+    });
+
+  history
+    .command('rm')
+    .description('Delete generations from history (image files are kept)')
+    .argument('<ids...>', 'History ids (or unique prefixes)')
+    .action(async (ids: string[]) => {
+      const resolved: string[] = [];
+      try {
+        for (const id of ids) {
+          const entry = await findHistoryEntry(id);
+          if (!entry) throw new Error(`No history entry with id "${id}"`);
+          resolved.push(entry.id);
+        }
+      } catch (error) {
+        fail(error);
+      }
+
+      const removed = await removeHistoryEntries(resolved);
+      console.log(chalk.green(`Removed ${removed} ${removed === 1 ? 'entry' : 'entries'}.`));
+    });
+}
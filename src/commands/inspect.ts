@@ -0,0 +1,67 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { readProvenance } from '../utils/provenance';
+
+export function registerInspectCommand(program: Command): void {
+  program
+    .command('inspect')
+    .description('Show the prompt and settings embedded in a generated image')
+    .argument('<file>', 'Image generated by this tool (PNG, JPEG or WebP)')
+    .option('--json', 'Print the raw metadata as JSON')
+    .action(async (file: string, opts) => {
+      let provenance;
+      try {
+        provenance = await readProvenance(file);
+      } catch (error) {
+        console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+        process.exit(1);
+      }
+
+      if (!provenance) {
+        console.error(chalk.yellow(`No generation metadata found in ${file}`));
+        process.exit(1);
+      }
+
+      if (opts.json) {
+        console.log(JSON.stringify(provenance, null, 2));
+        return;
+      }
+
+      const rows: Array<[string, unknown]> = [
+        ['Prompt', provenance.prompt],
+        ['Negative prompt', provenance.negativePrompt],
+        ['Model', provenance.model],
+        ['Provider model', provenance.providerModel],
+        ['Seed', provenance.seed],
+        ['Steps', provenance.steps],
+        ['Guidance', provenance.guidance],
+        ['Aspect ratio', provenance.aspectRatio],
+        ['Size', provenance.size],
+        ['Quality', provenance.quality],
+        ['Style', provenance.style],
+        ['Edited image', provenance.source?.path],
+        ['Mask', provenance.mask?.path],
+        ['Strength', provenance.strength],
+        ['Transparent', provenance.transparent],
+        ['Remove background', provenance.removeBg],
+        ['Background color', provenance.addBg],
+        ['Upscaled', provenance.upscale ? `${provenance.upscale}x${provenance.upscaler ? ` (${provenance.upscaler})` : ''}` : undefined],
+        ['Post-processing', Array.isArray(provenance.post) ? provenance.post.join(',') : provenance.post],
+        ['Created', provenance.createdAt],
+      ];
+
+      console.log();
+      console.log(chalk.dim('─'.repeat(50)));
+      for (const [label, value] of rows) {
+        if (value !== undefined) console.log(chalk.bold(`  ${label}:`), value);
+      }
+      if (provenance.references?.length) {
+        console.log(chalk.bold('  References:'));
+        for (const ref of provenance.references) {
+          console.log(`    ${chalk.cyan(ref.path)} ${chalk.dim(`sha256:${ref.sha256.slice(0, 12)}`)}`);
+        }
+      }
+      console.log(chalk.dim('─'.repeat(50)));
+      console.log();
+    });
+}
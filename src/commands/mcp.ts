@@ -0,0 +1,40 @@
+import { Command, Option } from 'commander';
+import chalk from 'chalk';
+import { resolve } from 'path';
+import { startMcpServer } from '../mcp';
+import { applyProviderLimits } from '../providers';
+import { ConfigError, loadConfig, resolveConfig, splitConfig } from '../utils/config';
+import { setPricing } from '../utils/cost';
+
+export function registerMcpCommand(program: Command): void {
+  program
+    .command('mcp')
+    .description('Run a Model Context Protocol server over stdio so agents can generate images as tools')
+    .option('--out-dir <dir>', 'Directory for images when a tool call gives no output path', './generated')
+    .option('--max-cost <usd>', 'Refuse tool calls estimated above this many USD (default: max-cost from config)', parseFloat)
+    .option('--provider-limit <spec...>', 'Per-provider limit as provider=concurrency[/rpm], e.g. replicate=4/60')
+    .addOption(
+      new Option('--profile <name>', 'Apply a named config profile as defaults for every tool call')
+        .env('IMG_GEN_PROFILE')
+    )
+    .action(async (opts) => {
+      let config: ReturnType<typeof splitConfig>;
+      try {
+        config = splitConfig(resolveConfig(await loadConfig(), opts.profile));
+        applyProviderLimits([...config.providerLimits, ...(opts.providerLimit ?? [])]);
+        setPricing(config.pricing);
+      } catch (error) {
+        // stdout belongs to the protocol; report on stderr
+        console.error(chalk.red(error instanceof ConfigError ? error.message : `Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+        process.exit(1);
+      }
+
+      const { output, ...defaults } = config.options;
+      await startMcpServer({
+        version: program.version() ?? '0.0.0',
+        outDir: resolve(opts.outDir),
+        defaults,
+        maxCost: opts.maxCost ?? config.maxCost,
+      });
+    });
+}
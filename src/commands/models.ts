@@ -0,0 +1,96 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { getModelDefinition, listModels, modelIds } from '../providers';
+import type { RegisteredModel } from '../providers';
+import type { NumberRange } from '../types';
+import { ALL_ASPECT_RATIOS } from '../types';
+
+/**
+ * Models grouped by provider, with descriptions (also used by --list-models)
+ */
+export function printModelList(): void {
+  console.log(chalk.bold('\nAvailable Models:\n'));
+  const byProvider = listModels().reduce((acc, entry) => {
+    if (!acc[entry.provider]) acc[entry.provider] = [];
+    acc[entry.provider].push(entry);
+    return acc;
+  }, {} as Record<string, ReturnType<typeof listModels>>);
+
+  for (const [provider, providerModels] of Object.entries(byProvider)) {
+    console.log(chalk.cyan(`  ${provider.toUpperCase()}:`));
+    for (const { model, description } of providerModels) {
+      console.log(`    - ${model.padEnd(18)}${description ? chalk.dim(description) : ''}`);
+    }
+    console.log();
+  }
+}
+
+function range(value?: NumberRange): string {
+  return value ? `${value.min}-${value.max}` : '-';
+}
+
+function list(values?: string[]): string {
+  return values?.length ? values.join(',') : '-';
+}
+
+function yesNo(value: boolean): string {
+  return value ? 'yes' : '-';
+}
+
+function editSupport({ edit, mask, strength }: RegisteredModel['capabilities']): string {
+  if (!edit) return '-';
+  return [mask && 'mask', strength && 'strength'].filter(Boolean).join(',') || 'yes';
+}
+
+/**
+ * One row per model: what it honors and the values it accepts
+ */
+function printModelDetails(models: RegisteredModel[]): void {
+  const header = ['MODEL', 'PROVIDER', 'REFS', 'TRANSP', 'NEG', 'SEED', 'EDIT', 'STEPS', 'GUIDANCE', 'QUALITY', 'STYLE', 'SIZES', 'MAX', 'ASPECT RATIOS'];
+  const rows = models.map(({ id, provider, capabilities, parameters }) => [
+    id,
+    provider,
+    String(capabilities.referenceImages || '-'),
+    yesNo(capabilities.transparent),
+    yesNo(capabilities.negativePrompt),
+    yesNo(capabilities.seed),
+    editSupport(capabilities),
+    range(parameters.steps),
+    range(parameters.guidance),
+    list(parameters.quality),
+    list(parameters.style),
+    list(parameters.sizes),
+    String(parameters.maxImages),
+    parameters.aspectRatios.length === ALL_ASPECT_RATIOS.length ? 'all' : list(parameters.aspectRatios),
+  ]);
+
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map((row) => row[i].length)));
+  const pad = (cells: string[]) => cells.map((cell, i) => cell.padEnd(widths[i]));
+
+  console.log(chalk.bold(pad(header).join('  ').trimEnd()));
+  for (const row of rows) {
+    const [model, ...rest] = pad(row);
+    console.log([chalk.cyan(model), ...rest].join('  ').trimEnd());
+  }
+  console.log(chalk.dim('\nREFS: reference images used; TRANSP: --transparent; NEG: --negative-prompt; MAX: --num-images'));
+  console.log(chalk.dim('EDIT: generate edit, with --mask and --strength where listed'));
+  console.log(chalk.dim('Options a model lacks are ignored with a warning (an error with --strict).'));
+}
+
+export function registerModelsCommand(program: Command): void {
+  program
+    .command('models')
+    .description('List available models, or what each one supports with --details')
+    .option('--details', 'Show a table of supported options and value ranges per model')
+    .option('--json', 'Print full model definitions as JSON')
+    .action((opts) => {
+      const models = modelIds().map((id) => getModelDefinition(id)!);
+      if (opts.json) {
+        console.log(JSON.stringify(models, null, 2));
+      } else if (opts.details) {
+        printModelDetails(models);
+      } else {
+        printModelList();
+      }
+    });
+}
@@ -0,0 +1,126 @@
+import { Command, Option } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { existsSync } from 'fs';
+import { copyFile } from 'fs/promises';
+import { basename, dirname, extname, join } from 'path';
+import { claimOutputPath } from '../utils/output';
+import { embedProvenance, readProvenance } from '../utils/provenance';
+import { ConfigError, loadConfig, resolveConfig, splitConfig } from '../utils/config';
+import { parsePostSteps, postProcessors, runPostSteps } from '../utils/processors';
+import type { PostStep } from '../utils/processors';
+
+interface ProcessReport {
+  source: string;
+  success: boolean;
+  outputPath?: string;
+  thumbnailPaths?: string[];
+  postProcessing?: string[];
+  error?: string;
+}
+
+function fail(message: string): never {
+  console.error(chalk.red(`Error: ${message}`));
+  process.exit(1);
+}
+
+function stepHelp(): string {
+  const rows = postProcessors().map((processor) => [processor.usage, processor.description]);
+  const width = Math.max(...rows.map(([usage]) => usage.length));
+  return `\nSteps:\n${rows.map(([usage, description]) => `  ${usage.padEnd(width)}  ${description}`).join('\n')}`;
+}
+
+export function registerProcessCommand(program: Command): void {
+  program
+    .command('process')
+    .description('Run a post-processing chain on existing images')
+    .argument('<files...>', 'Images to process')
+    .option('--post <steps>', 'Comma-separated steps, e.g. "remove-bg,trim,pad:64,format:webp:85" (default: post from config)')
+    .option('-o, --output <path>', 'Output path, for a single image (default: <image>-processed next to the source)')
+    .option('--in-place', 'Overwrite the source images')
+    .addOption(
+      new Option('--profile <name>', 'Apply a named profile from the config file').env('IMG_GEN_PROFILE')
+    )
+    .option('--no-clobber', 'Never overwrite existing files; add a numeric suffix instead')
+    .option('--no-metadata', 'Do not carry the source images\' metadata over to the results')
+    .option('--json', 'Print the results as JSON instead of the summary (no spinner)')
+    .addHelpText('after', stepHelp)
+    .action(async (files: string[], opts) => {
+      if (opts.output && opts.inPlace) fail('--output and --in-place cannot be combined');
+      if (opts.output && files.length > 1) fail('--output takes a single image; process several in place or next to their sources');
+      for (const file of files) {
+        if (!existsSync(file)) fail(`Image not found: ${file}`);
+      }
+
+      let steps: PostStep[] = [];
+      try {
+        const { options } = splitConfig(resolveConfig(await loadConfig(), opts.profile));
+        steps = parsePostSteps(opts.post ?? options.post ?? []);
+      } catch (error) {
+        console.error(chalk.red(error instanceof ConfigError ? error.message : `Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+        process.exit(1);
+      }
+      if (!steps.length) fail('No post-processing steps; pass --post or set "post" in a config file');
+
+      const spinner = ora({ isSilent: !!opts.json, spinner: 'dots' }).start();
+      const reports: ProcessReport[] = [];
+
+      for (const source of files) {
+        try {
+          // Inside the try, so an output that can't be claimed fails only this image
+          const outputPath = opts.inPlace
+            ? source
+            : claimOutputPath(
+              opts.output ?? join(dirname(source), `${basename(source, extname(source))}-processed${extname(source)}`),
+              opts.clobber !== false
+            );
+          const provenance = opts.metadata !== false ? await readProvenance(source) : null;
+          if (outputPath !== source) await copyFile(source, outputPath);
+
+          const result = await runPostSteps(outputPath, steps, { clobber: opts.clobber !== false }, (step) => {
+            spinner.text = `${chalk.cyan(source)}: ${step.spec}...`;
+          });
+
+          // Images this tool made keep their provenance, with the steps added
+          if (provenance) {
+            const earlier = parsePostSteps(provenance.post ?? []).map((step) => step.spec);
+            await embedProvenance(result.outputPath, { ...provenance, post: [...earlier, ...steps.map((step) => step.spec)] });
+            result.applied.push('metadata');
+          }
+
+          reports.push({
+            source,
+            success: true,
+            outputPath: result.outputPath,
+            ...(result.thumbnailPaths.length && { thumbnailPaths: result.thumbnailPaths }),
+            postProcessing: result.applied,
+          });
+        } catch (error) {
+          reports.push({ source, success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      }
+
+      const failed = reports.filter((report) => !report.success);
+      if (opts.json) {
+        console.log(JSON.stringify(reports, null, 2));
+        process.exit(failed.length ? 1 : 0);
+      }
+
+      if (failed.length) {
+        spinner.fail(chalk.red(`${failed.length} of ${reports.length} image(s) failed`));
+      } else {
+        spinner.succeed(chalk.green(`Processed ${reports.length} image(s) successfully!`));
+      }
+      console.log();
+      console.log(chalk.dim('─'.repeat(50)));
+      console.log(chalk.bold('  Steps:'), steps.map((step) => step.spec).join(' → '));
+      for (const report of reports) {
+        console.log(report.success
+          ? `  ${report.source} → ${chalk.cyan(report.outputPath)}`
+          : `  ${report.source} ${chalk.red(`✖ ${report.error}`)}`);
+      }
+      console.log(chalk.dim('─'.repeat(50)));
+      console.log();
+      if (failed.length) process.exit(1);
+    });
+}
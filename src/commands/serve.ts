@@ -0,0 +1,71 @@
+import { Command, Option } from 'commander';
+import chalk from 'chalk';
+import { randomBytes } from 'crypto';
+import { resolve } from 'path';
+import { startServer } from '../server';
+import { applyProviderLimits } from '../providers';
+import { DEFAULT_OPTIONS } from '../types';
+import { ConfigError, loadConfig, resolveConfig, splitConfig } from '../utils/config';
+import { setPricing } from '../utils/cost';
+
+export function registerServeCommand(program: Command): void {
+  program
+    .command('serve')
+    .description('Serve image generation as a REST API')
+    .option('--port <port>', 'Port to listen on', (val) => parseInt(val), 8080)
+    .option('--host <host>', 'Interface to bind', '127.0.0.1')
+    .addOption(
+      new Option('--token <token>', 'Bearer token clients must send (default: a random token, printed at startup)')
+        .env('IMG_GEN_SERVER_TOKEN')
+    )
+    .option('--out-dir <dir>', 'Directory for generated images', './server-output')
+    .option('--input-dir <dir>', 'Directory requests may read reference images and post-processing files from (default: none)')
+    .option('--max-cost <usd>', 'Refuse requests estimated above this many USD (default: max-cost from config)', parseFloat)
+    .option('--concurrency <n>', 'Maximum jobs running in parallel; others wait in the queue', (val) => {
+      const n = parseInt(val);
+      if (isNaN(n) || n < 1) throw new Error('Concurrency must be at least 1');
+      return n;
+    }, DEFAULT_OPTIONS.concurrency)
+    .option('--provider-limit <spec...>', 'Per-provider limit as provider=concurrency[/rpm], e.g. replicate=4/60')
+    .addOption(
+      new Option('--profile <name>', 'Apply a named config profile as defaults for every request')
+        .env('IMG_GEN_PROFILE')
+    )
+    .action(async (opts, command: Command) => {
+      let config: ReturnType<typeof splitConfig>;
+      try {
+        config = splitConfig(resolveConfig(await loadConfig(), opts.profile));
+        applyProviderLimits([...config.providerLimits, ...(opts.providerLimit ?? [])]);
+        setPricing(config.pricing);
+      } catch (error) {
+        console.error(chalk.red(error instanceof ConfigError ? error.message : `Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+        process.exit(1);
+      }
+
+      const token: string = opts.token || randomBytes(24).toString('base64url');
+      const concurrency = command.getOptionValueSource('concurrency') === 'cli'
+        ? opts.concurrency
+        : config.concurrency ?? opts.concurrency;
+
+      const { output, ...defaults } = config.options;
+      const server = startServer({
+        port: opts.port,
+        hostname: opts.host,
+        token,
+        outDir: resolve(opts.outDir),
+        concurrency,
+        defaults,
+        inputDir: opts.inputDir && resolve(opts.inputDir),
+        maxCost: opts.maxCost ?? config.maxCost,
+      });
+
+      console.log(chalk.green(`Listening on ${server.url}`));
+      console.log(chalk.bold('  Images:'), chalk.cyan(resolve(opts.outDir)));
+      console.log(chalk.bold('  Concurrency:'), concurrency);
+      if (opts.inputDir) console.log(chalk.bold('  Inputs:'), chalk.cyan(resolve(opts.inputDir)));
+      if (!opts.token) {
+        console.log(chalk.bold('  Token:'), chalk.yellow(token));
+        console.log(chalk.dim('  Set --token or IMG_GEN_SERVER_TOKEN to use a fixed token.'));
+      }
+    });
+}
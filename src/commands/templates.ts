@@ -0,0 +1,37 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { listTemplates, loadTemplate, templateDirs } from '../utils/templates';
+
+function fail(error: unknown): never {
+  console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+  process.exit(1);
+}
+
+export function registerTemplatesCommand(program: Command): void {
+  const templates = program
+    .command('templates')
+    .description('List and show prompt templates used with --template');
+
+  templates
+    .command('list')
+    .description('List available templates')
+    .action(() => {
+      const found = listTemplates();
+      for (const { name, path } of found) {
+        console.log(`${chalk.cyan(name.padEnd(24))} ${chalk.dim(path)}`);
+      }
+      console.log(chalk.dim(`\nSearched: ${templateDirs().join(', ')}`));
+    });
+
+  templates
+    .command('show')
+    .description('Print a template source')
+    .argument('<name>', 'Template name')
+    .action(async (name: string) => {
+      try {
+        console.log(await loadTemplate(name));
+      } catch (error) {
+        fail(error);
+      }
+    });
+}
@@ -0,0 +1,78 @@
+import { Command, Option } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import sharp from 'sharp';
+import { existsSync } from 'fs';
+import { basename, dirname, extname, join } from 'path';
+import { claimOutputPath } from '../utils/output';
+import { embedProvenance, readProvenance } from '../utils/provenance';
+import { parseUpscaleFactor, resolveUpscaler, upscaleImage, upscalerNames } from '../utils/upscale';
+import type { UpscaleFactor } from '../utils/upscale';
+
+export function registerUpscaleCommand(program: Command): void {
+  program
+    .command('upscale')
+    .description('Enlarge an existing image 2x or 4x')
+    .argument('<image>', 'Image to upscale')
+    .option('-x, --factor <factor>', 'How much to enlarge: 2x or 4x', parseUpscaleFactor, 2)
+    .addOption(
+      new Option('--upscaler <backend>', 'Upscaling backend; auto is local, replicate is paid and must be chosen')
+        .choices(upscalerNames())
+        .default('auto')
+    )
+    .option('-o, --output <path>', 'Output path (default: <image>-<factor>x.png next to the source)')
+    .option('--no-clobber', 'Never overwrite existing files; add a numeric suffix instead')
+    .option('--no-metadata', 'Do not carry the source image\'s metadata over to the result')
+    .option('--json', 'Print the result as JSON instead of the summary (no spinner)')
+    .action(async (image: string, opts) => {
+      if (!existsSync(image)) {
+        console.error(chalk.red(`Error: Image not found: ${image}`));
+        process.exit(1);
+      }
+
+      const factor = opts.factor as UpscaleFactor;
+      const upscaler = resolveUpscaler(opts.upscaler);
+      const outputPath = claimOutputPath(
+        opts.output ?? join(dirname(image), `${basename(image, extname(image))}-${factor}x.png`),
+        opts.clobber !== false
+      );
+
+      const spinner = ora({
+        isSilent: !!opts.json,
+        text: `Upscaling ${chalk.cyan(image)} ${factor}x with ${chalk.cyan(upscaler.name)}...`,
+        spinner: 'dots',
+      }).start();
+
+      try {
+        const provenance = await readProvenance(image);
+        await upscaleImage(image, outputPath, factor, upscaler.name);
+        // Images this tool made keep their provenance, noting the upscale
+        if (provenance && opts.metadata !== false) {
+          await embedProvenance(outputPath, { ...provenance, upscale: factor, upscaler: upscaler.name });
+        }
+      } catch (error) {
+        const message = `Upscaling failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        if (opts.json) {
+          console.log(JSON.stringify({ success: false, source: image, error: message }, null, 2));
+        } else {
+          spinner.fail(chalk.red(message));
+        }
+        process.exit(1);
+      }
+
+      const { width, height } = await sharp(outputPath).metadata();
+      if (opts.json) {
+        console.log(JSON.stringify({ success: true, source: image, outputPath, factor, upscaler: upscaler.name, width, height }, null, 2));
+        return;
+      }
+
+      spinner.succeed(chalk.green(`Upscaled ${factor}x successfully!`));
+      console.log();
+      console.log(chalk.dim('─'.repeat(50)));
+      console.log(chalk.bold('  Source:'), image);
+      console.log(chalk.bold('  Output:'), `${chalk.cyan(outputPath)} (${width}x${height})`);
+      console.log(chalk.bold('  Upscaler:'), upscaler.description);
+      console.log(chalk.dim('─'.repeat(50)));
+      console.log();
+    });
+}
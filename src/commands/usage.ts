@@ -0,0 +1,53 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { ledgerPath, parseSince, readLedger, summarizeSpend } from '../utils/ledger';
+import type { SpendTotals } from '../utils/ledger';
+import { formatCost } from '../utils/cost';
+
+function printTotals(title: string, totals: Record<string, SpendTotals>): void {
+  const rows = Object.entries(totals).sort(([, a], [, b]) => b.cost - a.cost);
+  const width = Math.max(title.length, ...rows.map(([key]) => key.length));
+
+  console.log(chalk.bold(`  ${title.toUpperCase().padEnd(width)}  ${'IMAGES'.padStart(6)}  ${'COST'.padStart(9)}`));
+  for (const [key, { images, cost }] of rows) {
+    console.log(`  ${chalk.cyan(key.padEnd(width))}  ${String(images).padStart(6)}  ${formatCost(cost).padStart(9)}`);
+  }
+  console.log();
+}
+
+export function registerUsageCommand(program: Command): void {
+  program
+    .command('usage')
+    .description(`Summarize estimated spend (recorded in ${ledgerPath()})`)
+    .option('--since <period>', 'Period such as 30d, 12h or 2w, or a date such as 2026-01-01', '30d')
+    .option('--json', 'Print the summary as JSON')
+    .action(async (opts) => {
+      let since: Date;
+      try {
+        since = parseSince(opts.since);
+      } catch (error) {
+        console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+        process.exit(1);
+      }
+
+      const summary = summarizeSpend(await readLedger(), since);
+      if (opts.json) {
+        console.log(JSON.stringify(summary, null, 2));
+        return;
+      }
+
+      const period = chalk.dim(`since ${since.toISOString().slice(0, 16).replace('T', ' ')}`);
+      if (!summary.total.images) {
+        console.log(chalk.dim(`No spend recorded ${period} (ledger: ${ledgerPath()})`));
+        return;
+      }
+
+      console.log(chalk.bold(`\nEstimated spend ${period}\n`));
+      printTotals('model', summary.byModel);
+      printTotals('user', summary.byUser);
+      console.log(chalk.dim('─'.repeat(50)));
+      console.log(chalk.bold('  Total:'), `${formatCost(summary.total.cost)} for ${summary.total.images} image(s)`);
+      console.log(chalk.dim('─'.repeat(50)));
+      console.log(chalk.dim('Estimates from model prices; check your provider dashboards for billed amounts.'));
+    });
+}
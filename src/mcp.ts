@@ -0,0 +1,207 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { existsSync } from 'fs';
+import { mkdir } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { generateImage, generationFailure } from './pipeline';
+import { listModels, modelIds } from './providers';
+import { checkOptions, defaultEditModel, editModels } from './providers/capabilities';
+import { BACKGROUND_REMOVERS, removeBackground, resolveBackgroundRemover } from './utils/background';
+import { generateThumbnail } from './utils/thumbnail';
+import { sourceAspectRatio } from './utils/canvas';
+import { claimOutputPath, variationOutputPath } from './utils/output';
+import { approveCost, costliestAttempt, estimateCost } from './utils/cost';
+import type { AspectRatio, GenerateOptions, GenerationResult } from './types';
+import { ALL_ASPECT_RATIOS, DEFAULT_OPTIONS } from './types';
+
+export interface McpOptions {
+  version: string;
+  /** Directory for images when a tool call doesn't name an output path */
+  outDir: string;
+  /** Config/profile defaults that tool arguments override */
+  defaults: Partial<GenerateOptions>;
+  /** Refuse tool calls estimated above this many USD */
+  maxCost?: number;
+}
+
+const ASPECT_RATIOS = ALL_ASPECT_RATIOS as [AspectRatio, ...AspectRatio[]];
+const THUMBNAIL_SIZE = 256;
+
+const outputArgs = {
+  output: z.string().optional().describe('Output file path (default: a new file in the server output directory)'),
+  thumbnail: z.boolean().optional().describe(`Include a base64 ${THUMBNAIL_SIZE}px PNG preview in the result (default: true)`),
+};
+
+function textResult(text: string, isError = false): CallToolResult {
+  return { content: [{ type: 'text', text }], isError };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/**
+ * Tool result for an image on disk: a JSON summary, plus a thumbnail preview unless disabled
+ */
+async function imageResult(path: string, details: Record<string, unknown>, thumbnail = true): Promise<CallToolResult> {
+  const content: CallToolResult['content'] = [];
+
+  if (thumbnail) {
+    const thumbnailPath = await generateThumbnail(path, { size: THUMBNAIL_SIZE });
+    details = { ...details, thumbnailPath };
+    const data = Buffer.from(await Bun.file(thumbnailPath).arrayBuffer()).toString('base64');
+    content.push({ type: 'image', data, mimeType: 'image/png' });
+  }
+
+  content.unshift({ type: 'text', text: JSON.stringify({ outputPath: path, ...details }, null, 2) });
+  return { content };
+}
+
+async function runGeneration(
+  options: GenerateOptions,
+  mcp: McpOptions,
+  thumbnail?: boolean
+): Promise<CallToolResult> {
+  const output = options.output
+    ? resolve(options.output)
+    : claimOutputPath(variationOutputPath(join(mcp.outDir, '{slug}-{hash}.{ext}'), options, 1, 1, new Date()), false);
+
+  // Refuse values the model can't take; report options it will ignore
+  const { issues } = checkOptions(options);
+  const errors = issues.filter((issue) => issue.severity === 'error');
+  if (errors.length) {
+    return textResult(`Invalid options: ${errors.map((issue) => issue.message).join('; ')}`, true);
+  }
+
+  // The same budget check as the CLI; there is no one to ask, so only the limit applies
+  try {
+    await approveCost(estimateCost([costliestAttempt(options)]), { maxCost: mcp.maxCost, interactive: false });
+  } catch (error) {
+    return textResult(errorMessage(error), true);
+  }
+
+  let result: GenerationResult;
+  try {
+    result = await generateImage({ ...options, output });
+  } catch (error) {
+    result = generationFailure(error);
+  }
+
+  if (!result.success || !result.outputPath) {
+    return textResult(`Generation failed (${result.errorKind}): ${result.error}`, true);
+  }
+
+  return imageResult(result.outputPath, {
+    ...(result.outputPaths && result.outputPaths.length > 1 && { outputPaths: result.outputPaths }),
+    model: result.metadata?.model,
+    seed: result.metadata?.seed,
+    historyId: result.metadata?.historyId,
+    ...(issues.length && { warnings: issues.map((issue) => issue.message) }),
+  }, thumbnail);
+}
+
+/**
+ * Tool arguments layered over config defaults and the CLI's built-in defaults
+ */
+function buildOptions(mcp: McpOptions, args: Partial<GenerateOptions> & { prompt: string }): GenerateOptions {
+  const { model, aspectRatio, quality, style, numImages } = DEFAULT_OPTIONS;
+  const given = Object.fromEntries(Object.entries(args).filter(([, value]) => value !== undefined));
+  return { model, aspectRatio, quality, style, numImages, ...mcp.defaults, ...given } as GenerateOptions;
+}
+
+/**
+ * Build the MCP server with generate_image, edit_image, list_models and remove_background
+ */
+export function createMcpServer(mcp: McpOptions): McpServer {
+  const server = new McpServer({ name: 'img-gen', version: mcp.version });
+  // Read when the server starts, so models from provider plugins are included
+  const models = modelIds() as [string, ...string[]];
+
+  server.registerTool('generate_image', {
+    title: 'Generate image',
+    description: 'Generate an image from a text prompt and save it to disk. Returns the file path and a preview.',
+    inputSchema: {
+      prompt: z.string().min(1).describe('What the image should show'),
+      model: z.enum(models).optional().describe(`Model to use (default: ${DEFAULT_OPTIONS.model})`),
+      aspectRatio: z.enum(ASPECT_RATIOS).optional(),
+      size: z.string().optional().describe('Resolution (1K, 2K, 4K) or pixel size (1024x1024)'),
+      negativePrompt: z.string().optional(),
+      seed: z.number().int().optional(),
+      referenceImages: z.array(z.string()).optional().describe('Paths of style/composition reference images'),
+      transparent: z.boolean().optional().describe('Request a transparent background (where supported)'),
+      ...outputArgs,
+    },
+  }, async ({ thumbnail, ...args }) => runGeneration(buildOptions(mcp, args), mcp, thumbnail));
+
+  server.registerTool('edit_image', {
+    title: 'Edit image',
+    description: 'Change an existing image following a natural-language instruction, optionally only inside a mask. Returns the new file path and a preview.',
+    inputSchema: {
+      image: z.string().describe('Path of the image to edit'),
+      instruction: z.string().min(1).describe('The change to make, e.g. "make the sky stormy"'),
+      mask: z.string().optional().describe('Path of a mask: only its white (or transparent) area is changed'),
+      strength: z.number().min(0).max(1).optional().describe('How much may change: 0 keeps the source, 1 replaces it (where supported)'),
+      model: z.enum(models).optional().describe('Model to use; it must support editing (and masks, with mask)'),
+      ...outputArgs,
+    },
+  }, async ({ image, instruction, mask, model, thumbnail, ...args }) => {
+    const editImage = resolve(image);
+    if (!existsSync(editImage)) return textResult(`Image not found: ${image}`, true);
+    const maskPath = mask ? resolve(mask) : undefined;
+    if (maskPath && !existsSync(maskPath)) return textResult(`Mask not found: ${mask}`, true);
+
+    // Same routing as generate edit: the provider's edit endpoint, at the source's proportions
+    const edit = { editImage, mask: maskPath };
+    const editModel = model ?? defaultEditModel(mcp.defaults.model, edit);
+    if (!editModel) return textResult(`No model can carry out this edit; models that edit images: ${editModels(!!maskPath).join(', ')}`, true);
+
+    return runGeneration(
+      buildOptions(mcp, { ...args, ...edit, model: editModel, prompt: instruction, aspectRatio: await sourceAspectRatio(editImage) }),
+      mcp,
+      thumbnail
+    );
+  });
+
+  server.registerTool('list_models', {
+    title: 'List models',
+    description: 'List the image models this server can use, with their providers',
+  }, async () => textResult(JSON.stringify(listModels(), null, 2)));
+
+  server.registerTool('remove_background', {
+    title: 'Remove background',
+    description: 'Remove the background from an image, locally or with remove.bg. Writes a transparent PNG.',
+    inputSchema: {
+      image: z.string().describe('Path of the image'),
+      backend: z.enum(BACKGROUND_REMOVERS).optional()
+        .describe('local (offline, flat backgrounds only), removebg (uploads the image), or auto (default: removebg when its key is set)'),
+      ...outputArgs,
+    },
+  }, async ({ image, backend, output, thumbnail }) => {
+    const input = resolve(image);
+    if (!existsSync(input)) return textResult(`Image not found: ${image}`, true);
+
+    const outputPath = output
+      ? resolve(output)
+      : claimOutputPath(input.replace(/\.(png|jpe?g|webp)$/i, '') + '-nobg.png', false);
+    let written: string;
+    try {
+      await mkdir(dirname(outputPath), { recursive: true });
+      written = await removeBackground(input, outputPath, backend);
+    } catch (error) {
+      return textResult(`Background removal failed: ${errorMessage(error)}`, true);
+    }
+    return imageResult(written, { source: input, backend: resolveBackgroundRemover(backend) }, thumbnail);
+  });
+
+  return server;
+}
+
+/**
+ * Serve tools over stdio until the client disconnects. stdout carries the protocol,
+ * so nothing else may write to it.
+ */
+export async function startMcpServer(mcp: McpOptions): Promise<void> {
+  await createMcpServer(mcp).connect(new StdioServerTransport());
+}
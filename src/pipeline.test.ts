@@ -0,0 +1,186 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describeGeneration, generateImage, generationFailure, PostProcessingError, postProcessSteps } from './pipeline';
+import { registerProvider } from './providers';
+import { readHistory } from './utils/history';
+import type { GenerateOptions } from './types';
+
+describe('describeGeneration', () => {
+  test('maps options onto the Replicate input, dropping what the model ignores', async () => {
+    const request = await describeGeneration({
+      model: 'flux',
+      prompt: 'A lighthouse',
+      aspectRatio: '16:9',
+      seed: 3,
+      steps: 20,
+      guidance: 3,
+      negativePrompt: 'fog',
+      numImages: 2,
+    });
+
+    expect(request.provider).toBe('replicate');
+    expect(request.endpoint).toBe('replicate.run black-forest-labs/flux-1.1-pro');
+    expect(request.options).toEqual({
+      model: 'flux',
+      prompt: 'A lighthouse',
+      aspectRatio: '16:9',
+      seed: 3,
+      negativePrompt: 'fog',
+      numImages: 1,
+    });
+    expect(request.payload).toEqual({
+      prompt: 'A lighthouse',
+      aspect_ratio: '16:9',
+      output_format: 'png',
+      output_quality: 100,
+      negative_prompt: 'fog',
+      seed: 3,
+    });
+  });
+
+  test('sends a Flux edit with a mask to the Fill model', async () => {
+    const request = await describeGeneration({ model: 'flux', prompt: 'Add a boat', editImage: 'in.png', mask: 'mask.png' });
+
+    expect(request.endpoint).toBe('replicate.run black-forest-labs/flux-fill-pro');
+    expect(request.payload).toEqual({
+      prompt: 'Add a boat',
+      image: '<image in.png>',
+      mask: '<image mask.png>',
+      output_format: 'png',
+    });
+  });
+
+  test('adjusts the aspect ratio to the nearest OpenAI size and maps quality', async () => {
+    const request = await describeGeneration({
+      model: 'gpt-image-1',
+      prompt: 'A mug',
+      aspectRatio: '16:9',
+      quality: 'hd',
+      transparent: true,
+      seed: 3,
+    });
+
+    expect(request.options.aspectRatio).toBe('3:2');
+    expect(request.options.seed).toBeUndefined();
+    expect(request.endpoint).toBe('openai.images.generate');
+    expect(request.payload).toMatchObject({ size: '1536x1024', quality: 'high', background: 'transparent' });
+  });
+
+  test('sends an OpenAI edit to images.edit with the image and mask', async () => {
+    const request = await describeGeneration({ model: 'gpt-image-1', prompt: 'Make it red', editImage: 'in.png', mask: 'mask.png' });
+
+    expect(request.endpoint).toBe('openai.images.edit');
+    expect(request.payload).toMatchObject({ image: ['<image in.png>'], mask: '<image mask.png>' });
+  });
+
+  test('uses the Gemini API model name for Google models', async () => {
+    const options: GenerateOptions = { model: 'imagen-4', prompt: 'A fox', aspectRatio: '21:9', useApi: true };
+    const request = await describeGeneration(options);
+
+    expect(request.endpoint).toBe('gemini.models.generateContent');
+    expect(request.payload).toMatchObject({
+      model: 'gemini-3-pro-image-preview',
+      contents: 'A fox',
+      config: { imageConfig: { aspectRatio: '21:9' } },
+    });
+  });
+});
+
+describe('postProcessSteps', () => {
+  test('runs the shortcut flags, then --post, then the thumbnail', () => {
+    const steps = postProcessSteps({
+      model: 'mock',
+      prompt: 'A fox',
+      thumbnail: true,
+      post: 'trim,format:webp',
+      upscale: 2,
+      removeBg: 'local',
+      addBg: '#FFFFFF',
+    });
+    expect(steps.map((step) => step.spec)).toEqual([
+      'remove-bg:local', 'add-bg:#FFFFFF', 'upscale:2', 'trim', 'format:webp', 'thumbnail:256',
+    ]);
+  });
+
+  test('is empty when nothing was asked for', () => {
+    expect(postProcessSteps({ model: 'mock', prompt: 'A fox', upscale: 1 })).toEqual([]);
+  });
+});
+
+describe('generateImage', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'img-gen-test-'));
+    // Keep the run out of the real history and spend ledger
+    process.env.IMG_GEN_HISTORY_FILE = join(dir, 'history.jsonl');
+    process.env.IMG_GEN_LEDGER_FILE = join(dir, 'spend.jsonl');
+  });
+
+  afterAll(async () => {
+    delete process.env.IMG_GEN_HISTORY_FILE;
+    delete process.env.IMG_GEN_LEDGER_FILE;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('falls back when a provider cannot be set up', async () => {
+    registerProvider({
+      name: 'broken',
+      models: [{ id: 'broken-model', capabilities: { referenceImages: 0, transparent: false, negativePrompt: false, seed: false }, parameters: { aspectRatios: ['1:1'], maxImages: 1 } }],
+      create: () => {
+        throw new Error('missing native module');
+      },
+    }, 'test');
+
+    const result = await generateImage({
+      model: 'broken-model',
+      prompt: 'A fox',
+      aspectRatio: '1:1',
+      fallback: ['mock'],
+      output: join(dir, 'fox.png'),
+      embedMetadata: false,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.metadata?.model).toBe('mock');
+    expect(result.metadata?.fallbacks).toEqual([{
+      model: 'broken-model',
+      errorKind: 'provider_unavailable',
+      error: 'Could not load the provider for broken-model: missing native module',
+    }]);
+  });
+
+  test('records what a finish step leaves in history', async () => {
+    const finalPath = join(dir, 'final.png');
+    const result = await generateImage({
+      model: 'mock',
+      prompt: 'A fox',
+      aspectRatio: '1:1',
+      output: join(dir, 'scratch.png'),
+      embedMetadata: false,
+    }, undefined, async (generated) => {
+      generated.outputPath = finalPath;
+      return { editImage: 'source.png' };
+    });
+
+    const entry = (await readHistory()).find((e) => e.id === result.metadata?.historyId);
+    expect(entry).toMatchObject({ outputPath: finalPath, options: { model: 'mock', editImage: 'source.png' } });
+  });
+});
+
+describe('generationFailure', () => {
+  test('gives post-processing errors their own kind', () => {
+    expect(generationFailure(new PostProcessingError(new Error('trim failed')))).toEqual({
+      success: false,
+      errorKind: 'post_processing',
+      error: 'Post-processing failed: trim failed',
+    });
+  });
+
+  test('classifies anything else like a provider error', () => {
+    expect(generationFailure(new Error('ENOENT: no such file, open ref.png')).errorKind).toBe('invalid_params');
+    expect(generationFailure(new Error('socket hang up')).errorKind).toBe('transient_network');
+  });
+});
@@ -0,0 +1,278 @@
+import { getModelDefinition, getProviderForModel, getRateLimiterForModel } from './providers';
+import { fallbackChain, shouldFallBack, translateOptions } from './providers/fallback';
+import { classifyError, failure } from './providers/errors';
+import { BaseProvider } from './providers/base';
+import { parsePostSteps, runPostSteps } from './utils/processors';
+import type { PostStep } from './utils/processors';
+import { buildProvenance, embedProvenance } from './utils/provenance';
+import { recordHistory } from './utils/history';
+import { recordSpend } from './utils/ledger';
+import { requestCost } from './utils/cost';
+import type { FallbackAttempt, GenerateOptions, GenerationResult, ImageProvider, PostProcessingStep, ProviderRequest } from './types';
+
+export type ProgressCallback = (message: string) => void;
+
+export interface DryRun extends Partial<ProviderRequest> {
+  model: string;
+  provider: string;
+  /** The options after adapting them to the model, as the provider receives them */
+  options: GenerateOptions;
+}
+
+export interface PostProcessResult {
+  steps: PostProcessingStep[];
+  /** Where the image ended up; a format step changes its extension */
+  outputPath: string;
+  thumbnailPaths: string[];
+}
+
+/**
+ * The post-processing chain for options: --remove-bg, --add-bg and --upscale, then the
+ * --post steps in order, then --thumbnail so it shows the finished image. Throws if a
+ * step is unknown or has invalid arguments.
+ */
+export function postProcessSteps(options: GenerateOptions): PostStep[] {
+  const before: string[] = [];
+  if (options.removeBg) before.push(`remove-bg:${options.removeBg === true ? 'auto' : options.removeBg}`);
+  if (options.addBg) before.push(`add-bg:${options.addBg}`);
+  if (options.upscale && options.upscale > 1) {
+    before.push(['upscale', options.upscale, options.upscaler].filter(Boolean).join(':'));
+  }
+  const after = options.thumbnail
+    ? [`thumbnail:${typeof options.thumbnail === 'number' ? options.thumbnail : 256}`]
+    : [];
+
+  return [...parsePostSteps(before), ...parsePostSteps(options.post ?? []), ...parsePostSteps(after)];
+}
+
+/**
+ * Apply the post-processing steps requested in options to a generated image
+ */
+export async function postProcess(
+  imagePath: string,
+  options: GenerateOptions,
+  onProgress: ProgressCallback = () => {}
+): Promise<PostProcessResult> {
+  const { outputPath, thumbnailPaths, applied } = await runPostSteps(
+    imagePath,
+    postProcessSteps(options),
+    { clobber: options.clobber !== false },
+    (step) => onProgress(`Post-processing: ${step.spec}...`)
+  );
+  return { steps: applied, outputPath, thumbnailPaths };
+}
+
+async function recordAttempt(options: GenerateOptions, result: GenerationResult, duration: number): Promise<void> {
+  try {
+    const entry = await recordHistory({
+      model: options.model,
+      prompt: options.prompt,
+      options,
+      success: result.success,
+      outputPath: result.outputPath,
+      ...(result.outputPaths && result.outputPaths.length > 1 && { outputPaths: result.outputPaths }),
+      error: result.error,
+      errorKind: result.errorKind,
+      duration,
+    });
+    if (result.metadata) result.metadata.historyId = entry.id;
+  } catch {
+    // History is best-effort; never fail a generation because it couldn't be written
+  }
+}
+
+/**
+ * Add a successful generation to the spend ledger at the model's estimated price
+ */
+async function recordCost(options: GenerateOptions, result: GenerationResult): Promise<void> {
+  // Charge for the images that came back, which a provider may cap below numImages
+  const images = result.outputPaths?.length || options.numImages || 1;
+  const cost = requestCost({ ...options, numImages: images });
+  if (cost === undefined) return;
+  try {
+    await recordSpend({
+      model: options.model,
+      provider: getModelDefinition(options.model)!.provider,
+      images,
+      cost,
+      historyId: result.metadata?.historyId,
+    });
+  } catch {
+    // Like history, the ledger is best-effort
+  }
+}
+
+/**
+ * The attempt that produced the images, recorded once post-processing has settled
+ * where they ended up
+ */
+interface SuccessfulAttempt {
+  options: GenerateOptions;
+  duration: number;
+}
+
+/**
+ * Try options.model, then each model in options.fallback, until one succeeds or fails
+ * with an error that falling back won't help. The result's metadata.model names the
+ * model that produced the image. Failed attempts are recorded in history here; the
+ * successful one is returned for the caller to record.
+ */
+async function generateWithFallback(
+  options: GenerateOptions,
+  onProgress: ProgressCallback
+): Promise<{ result: GenerationResult; attempt?: SuccessfulAttempt }> {
+  const chain = fallbackChain(options);
+  const fallbacks: FallbackAttempt[] = [];
+  let result: GenerationResult | undefined;
+  let attempt: SuccessfulAttempt | undefined;
+
+  for (const model of chain) {
+    if (model !== options.model) {
+      onProgress(`Falling back to ${model}...`);
+    }
+
+    const attemptOptions = translateOptions(options, model);
+    const startTime = Date.now();
+    let provider: ImageProvider;
+    try {
+      provider = getProviderForModel(model);
+    } catch (error) {
+      // A provider (often a plugin) that can't be set up fails only its own attempt
+      result = failure(classifyError(error), `Could not load the provider for ${model}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      await recordAttempt(attemptOptions, result, Date.now() - startTime);
+      fallbacks.push({ model, errorKind: result.errorKind, error: result.error });
+      continue;
+    }
+
+    // Built-in providers take a rate limiter slot per attempt, so retries are throttled too;
+    // plugin providers with their own generate() get one slot for the call
+    const limiter = getRateLimiterForModel(model);
+    result = provider instanceof BaseProvider
+      ? await provider.generate(attemptOptions, (task) => limiter.run(task))
+      : await limiter.run(() => provider.generate(attemptOptions));
+    if (result.success) {
+      attempt = { options: attemptOptions, duration: Date.now() - startTime };
+      break;
+    }
+    await recordAttempt(attemptOptions, result, Date.now() - startTime);
+
+    fallbacks.push({ model, errorKind: result.errorKind, error: result.error });
+    if (!shouldFallBack(result.errorKind)) break;
+  }
+
+  // On success, the models that failed first; on failure, every model tried
+  if (result!.success ? fallbacks.length : chain.length > 1) {
+    result!.metadata = {
+      model: fallbacks[fallbacks.length - 1]?.model ?? options.model,
+      prompt: options.prompt,
+      ...result!.metadata,
+      requestedModel: options.model,
+      fallbacks,
+    };
+  }
+
+  return { result: result!, attempt };
+}
+
+/**
+ * Thrown by generateImage when the image was generated but a post-processing step failed
+ */
+export class PostProcessingError extends Error {
+  constructor(cause: unknown) {
+    super(`Post-processing failed: ${cause instanceof Error ? cause.message : 'Unknown error'}`, { cause });
+    this.name = 'PostProcessingError';
+  }
+}
+
+/**
+ * Unsuccessful result for an error thrown by generateImage: post_processing for a
+ * PostProcessingError, anything else classified like a provider error
+ */
+export function generationFailure(error: unknown): GenerationResult {
+  if (error instanceof PostProcessingError) return failure('post_processing', error.message);
+  return failure(classifyError(error), error instanceof Error ? error.message : 'Unknown error');
+}
+
+/**
+ * A last step after post-processing that rewrites the result, such as extend's stitching.
+ * It may update the result in place, and returns options to record in history instead of
+ * the ones sent (e.g. the real source rather than a scratch file).
+ */
+export type FinishStep = (result: GenerationResult) => Promise<Partial<GenerateOptions> | void>;
+
+/**
+ * Generate an image (or numImages images) with the provider for options.model (falling
+ * back along options.fallback), then post-process each, embed provenance metadata and
+ * run finish.
+ * Provider calls wait for a slot in that provider's rate limiter, so this is safe to run
+ * concurrently. Provider failures are returned as an unsuccessful result; other errors
+ * throw, as a PostProcessingError when a post-processing step failed.
+ */
+export async function generateImage(
+  options: GenerateOptions,
+  onProgress: ProgressCallback = () => {},
+  finish?: FinishStep
+): Promise<GenerationResult> {
+  const { result, attempt } = await generateWithFallback(options, onProgress);
+  let recorded = attempt?.options;
+
+  try {
+    if (result.success && result.outputPath) {
+      result.outputPaths ??= [result.outputPath];
+      const provenance = options.embedMetadata !== false ? await buildProvenance(options, result) : undefined;
+
+      for (const [i, generatedPath] of result.outputPaths.entries()) {
+        try {
+          const { steps, outputPath: imagePath, thumbnailPaths } = await postProcess(generatedPath, options, onProgress);
+          result.outputPaths[i] = imagePath;
+          result.outputPath = result.outputPaths[0];
+          if (thumbnailPaths.length) (result.thumbnailPaths ??= []).push(...thumbnailPaths);
+          result.postProcessing = steps;
+
+          // Last, so earlier steps that rewrite the file don't strip it
+          if (provenance) {
+            await embedProvenance(imagePath, provenance);
+            steps.push('metadata');
+          }
+        } catch (error) {
+          throw new PostProcessingError(error);
+        }
+      }
+      result.thumbnailPath = result.thumbnailPaths?.[0];
+
+      if (finish) {
+        try {
+          recorded = { ...recorded!, ...await finish(result) };
+        } catch (error) {
+          throw new PostProcessingError(error);
+        }
+      }
+    }
+  } finally {
+    // History points at the images where post-processing left them (e.g. after a format
+    // step); the images were paid for even if a step threw
+    if (attempt) {
+      await recordAttempt(recorded!, result, attempt.duration);
+      await recordCost(attempt.options, result);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * What generateImage would send for options.model, without calling the network or
+ * writing anything. Providers without describeRequest (some plugins) report only the
+ * adapted options.
+ */
+export async function describeGeneration(options: GenerateOptions): Promise<DryRun> {
+  const adapted = translateOptions(options, options.model);
+  const provider = getProviderForModel(options.model);
+  const request = await provider.describeRequest?.(adapted);
+  return {
+    model: options.model,
+    provider: getModelDefinition(options.model)!.provider,
+    options: adapted,
+    ...request,
+  };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'bun:test';
+import { BaseProvider } from './base';
+import { failure } from './errors';
+import type { GenerateOptions, GenerationResult, ProviderRequest } from '../types';
+
+/** Fails the first `failures` attempts as rate limited, then succeeds */
+class FlakyProvider extends BaseProvider {
+  name = 'Flaky';
+  calls = 0;
+
+  constructor(private readonly failures: number) {
+    super();
+  }
+
+  async describeRequest(): Promise<ProviderRequest> {
+    return { endpoint: 'flaky', payload: {} };
+  }
+
+  protected async generateOnce(options: GenerateOptions): Promise<GenerationResult> {
+    if (++this.calls <= this.failures) return failure('rate_limited', 'Too many requests');
+    return { success: true, outputPath: 'out.png', metadata: { model: options.model, prompt: options.prompt } };
+  }
+}
+
+describe('BaseProvider.generate', () => {
+  test('runs every attempt, retries included, through the attempt runner', async () => {
+    const provider = new FlakyProvider(1);
+    let running = 0;
+    let runs = 0;
+
+    const result = await provider.generate({ model: 'mock', prompt: 'A fox', retries: 2 }, async (task) => {
+      runs++;
+      running++;
+      try {
+        return await task();
+      } finally {
+        running--;
+      }
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.metadata?.attempts).toBe(2);
+    expect(runs).toBe(2);
+    expect(running).toBe(0);
+  });
+
+  test('stops after the configured retries', async () => {
+    const provider = new FlakyProvider(5);
+    const result = await provider.generate({ model: 'mock', prompt: 'A fox', retries: 0 });
+
+    expect(result.errorKind).toBe('rate_limited');
+    expect(provider.calls).toBe(1);
+  });
+});
@@ -1,11 +1,92 @@
-import type { GenerateOptions, GenerationResult, ImageProvider, Model } from '../types';
+import { mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import type { GenerateOptions, GenerationResult, ImageProvider, ProviderRequest } from '../types';
+import { DEFAULT_OPTIONS, RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS } from '../types';
 import { downloadImage } from '../utils/download';
+import { claimOutputPath, indexedOutputPath } from '../utils/output';
+import { classifyError, failure, isRetryable } from './errors';
+
+/**
+ * Turns a reference image path into what a request carries: file data for real
+ * calls, a placeholder for dry runs
+ */
+export type ImageEncoder = (path: string) => Promise<string>;
+
+export const imagePlaceholder: ImageEncoder = async (path) => `<image ${path}>`;
+
+/**
+ * Runs one request to the provider, e.g. in a rate limiter slot
+ */
+export type AttemptRunner = <T>(task: () => Promise<T>) => Promise<T>;
 
 export abstract class BaseProvider implements ImageProvider {
   abstract name: string;
-  abstract models: Model[];
 
-  abstract generate(options: GenerateOptions): Promise<GenerationResult>;
+  /**
+   * The request generateOnce would send for these options, with images as placeholders
+   */
+  abstract describeRequest(options: GenerateOptions): Promise<ProviderRequest>;
+
+  /**
+   * Make a single generation attempt. Implementations report failures through the
+   * result (with an errorKind) or by throwing; thrown errors are classified here.
+   */
+  protected abstract generateOnce(options: GenerateOptions): Promise<GenerationResult>;
+
+  /**
+   * Generate an image, retrying rate-limit, network and availability failures
+   * with jittered exponential backoff. Each attempt goes through runAttempt, so a
+   * rate limiter sees every retry and no slot is held while backing off.
+   */
+  async generate(options: GenerateOptions, runAttempt: AttemptRunner = (task) => task()): Promise<GenerationResult> {
+    const maxAttempts = (options.retries ?? DEFAULT_OPTIONS.retries) + 1;
+    let result: GenerationResult;
+    let attempt = 0;
+
+    for (;;) {
+      attempt++;
+      result = await runAttempt(() => this.attempt(options));
+
+      if (result.success || !isRetryable(result.errorKind) || attempt >= maxAttempts) {
+        break;
+      }
+
+      await Bun.sleep(this.backoffDelay(attempt));
+    }
+
+    if (result.metadata) {
+      result.metadata.attempts = attempt;
+    }
+    return result;
+  }
+
+  private async attempt(options: GenerateOptions): Promise<GenerationResult> {
+    try {
+      return await this.generateOnce(options);
+    } catch (error) {
+      return failure(classifyError(error), error instanceof Error ? error.message : 'Unknown error occurred');
+    }
+  }
+
+  /**
+   * "Full jitter" backoff: a random delay up to base * 2^(attempt - 1), capped
+   */
+  private backoffDelay(attempt: number): number {
+    const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+    return Math.round(Math.random() * ceiling);
+  }
+
+  /**
+   * Where to save the images a request returned. One image goes to options.output;
+   * several get indexed names, honoring --no-clobber.
+   */
+  protected outputPaths(options: GenerateOptions, count: number): string[] {
+    const output = options.output || DEFAULT_OPTIONS.output;
+    if (count <= 1) return [output];
+    return Array.from({ length: count }, (_, i) =>
+      claimOutputPath(indexedOutputPath(output, i + 1, count), options.clobber !== false)
+    );
+  }
 
   protected async saveImage(url: string, outputPath: string): Promise<string> {
     return downloadImage(url, outputPath);
@@ -13,6 +94,7 @@ export abstract class BaseProvider implements ImageProvider {
 
   protected async saveBase64Image(base64: string, outputPath: string): Promise<string> {
     const buffer = Buffer.from(base64, 'base64');
+    await mkdir(dirname(outputPath), { recursive: true });
     await Bun.write(outputPath, buffer);
     return outputPath;
   }
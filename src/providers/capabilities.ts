@@ -0,0 +1,201 @@
+import type { AspectRatio, GenerateOptions, Model, NumberRange } from '../types';
+import { ASPECT_RATIO_TO_DIMENSIONS, DEFAULT_OPTIONS } from '../types';
+import { getModelDefinition, isKnownModel, modelIds } from './index';
+
+export interface CapabilityIssue {
+  option: keyof GenerateOptions;
+  /** Warnings are adjusted and generation goes ahead; errors stop it (as do warnings with --strict) */
+  severity: 'warning' | 'error';
+  message: string;
+}
+
+export interface CapabilityCheck {
+  /** The options with everything the model can't use removed or adjusted */
+  options: GenerateOptions;
+  issues: CapabilityIssue[];
+}
+
+/**
+ * Options the user set themselves, when the caller can't tell: any value that
+ * differs from the built-in default
+ */
+function differsFromDefault(options: GenerateOptions): Set<keyof GenerateOptions> {
+  const defaults = DEFAULT_OPTIONS as Partial<Record<keyof GenerateOptions, unknown>>;
+  const keys = Object.keys(options) as Array<keyof GenerateOptions>;
+  return new Set(keys.filter((key) => options[key] !== undefined && options[key] !== defaults[key]));
+}
+
+function ratio(aspectRatio: AspectRatio): number {
+  const { width, height } = ASPECT_RATIO_TO_DIMENSIONS[aspectRatio];
+  return width / height;
+}
+
+/**
+ * The supported aspect ratio with the shape nearest to the requested one
+ */
+export function closestAspectRatio(aspectRatio: AspectRatio, supported: AspectRatio[]): AspectRatio {
+  const target = Math.log(ratio(aspectRatio));
+  return supported.reduce((best, candidate) =>
+    Math.abs(Math.log(ratio(candidate)) - target) < Math.abs(Math.log(ratio(best)) - target) ? candidate : best
+  );
+}
+
+function inRange(value: number, range: NumberRange): boolean {
+  return value >= range.min && value <= range.max;
+}
+
+/**
+ * Models that can carry out an edit: any edit, or one limited to a mask
+ */
+export function editModels(withMask = false): string[] {
+  return modelIds().filter((id) => {
+    const { capabilities } = getModelDefinition(id)!;
+    return capabilities.edit && (!withMask || capabilities.mask);
+  });
+}
+
+/**
+ * Whether model can run these options at all. An edit can't be adapted for a model
+ * that doesn't edit, so fallback skips such models rather than generating from scratch.
+ */
+export function canEdit(options: GenerateOptions, model: string): boolean {
+  const capabilities = getModelDefinition(model)?.capabilities;
+  if (!options.editImage) return true;
+  return !!capabilities?.edit && (!options.mask || !!capabilities.mask);
+}
+
+/**
+ * The model to edit with when none is named: the configured model if it can do the
+ * edit (at aspectRatio, when given), else the default model, else the first model that can
+ */
+export function defaultEditModel(
+  configured: Model | undefined,
+  options: Pick<GenerateOptions, 'editImage' | 'mask' | 'aspectRatio'>
+): Model | undefined {
+  const candidates = [configured, DEFAULT_OPTIONS.model, ...editModels(!!options.mask)];
+  return candidates.find((model): model is Model =>
+    !!model &&
+    isKnownModel(model) &&
+    canEdit(options as GenerateOptions, model) &&
+    (!options.aspectRatio || getModelDefinition(model)!.parameters.aspectRatios.includes(options.aspectRatio))
+  );
+}
+
+/**
+ * Compare options against what options.model declares it supports. Options the model
+ * doesn't have are dropped, an unsupported aspect ratio becomes the closest supported
+ * one, and values outside a declared range or list are errors. Only options in
+ * `requested` are reported, so built-in defaults are adjusted quietly; without it,
+ * any value other than the built-in default counts as requested.
+ */
+export function checkOptions(
+  options: GenerateOptions,
+  requested: ReadonlySet<keyof GenerateOptions> = differsFromDefault(options)
+): CapabilityCheck {
+  const definition = getModelDefinition(options.model);
+  const checked: GenerateOptions = { ...options };
+  const issues: CapabilityIssue[] = [];
+  if (!definition) return { options: checked, issues };
+
+  const { id, capabilities, parameters } = definition;
+  const report = (option: keyof GenerateOptions, severity: CapabilityIssue['severity'], message: string) => {
+    if (requested.has(option)) issues.push({ option, severity, message });
+  };
+  const unsupported = (option: keyof GenerateOptions, flag: string, consequence = 'it is ignored') => {
+    report(option, 'warning', `${id} does not support ${flag}; ${consequence}`);
+    delete checked[option];
+  };
+
+  if (options.transparent && !capabilities.transparent) {
+    unsupported('transparent', '--transparent', 'the background will be opaque (try --remove-bg)');
+  }
+  if (options.negativePrompt && !capabilities.negativePrompt) {
+    unsupported('negativePrompt', '--negative-prompt');
+  }
+  if (options.seed !== undefined && !capabilities.seed) {
+    unsupported('seed', '--seed', 'results will not be reproducible');
+  }
+
+  // Ignoring these would change the whole image, so they are errors rather than dropped
+  if (options.editImage && !capabilities.edit) {
+    report('editImage', 'error', `${id} cannot edit images; use one of ${editModels().join(', ')}`);
+  } else if (options.mask && !capabilities.mask) {
+    report('mask', 'error', `${id} does not support --mask; use one of ${editModels(true).join(', ')}`);
+  }
+
+  if (options.strength !== undefined) {
+    if (!capabilities.strength) {
+      unsupported('strength', '--strength');
+    } else if (!inRange(options.strength, { min: 0, max: 1 })) {
+      report('strength', 'error', '--strength must be between 0 and 1');
+      delete checked.strength;
+    }
+  }
+
+  const references = options.referenceImages ?? [];
+  if (references.length > capabilities.referenceImages) {
+    if (!capabilities.referenceImages) {
+      unsupported('referenceImages', 'reference images', 'they are ignored');
+    } else {
+      report(
+        'referenceImages',
+        'warning',
+        `${id} uses at most ${capabilities.referenceImages} reference image(s); the other ${references.length - capabilities.referenceImages} are ignored`
+      );
+      checked.referenceImages = references.slice(0, capabilities.referenceImages);
+    }
+  }
+
+  for (const [option, flag] of [['steps', '--steps'], ['guidance', '--guidance']] as const) {
+    const value = options[option];
+    if (value === undefined) continue;
+    const range = parameters[option];
+    if (!range) {
+      unsupported(option, flag);
+    } else if (!inRange(value, range)) {
+      report(option, 'error', `${flag} for ${id} must be between ${range.min} and ${range.max}`);
+      delete checked[option];
+    }
+  }
+
+  for (const [option, flag] of [['quality', '--quality'], ['style', '--style']] as const) {
+    const value = options[option];
+    if (value === undefined) continue;
+    const allowed: string[] | undefined = parameters[option];
+    if (!allowed) {
+      unsupported(option, flag);
+    } else if (!allowed.includes(value)) {
+      report(option, 'error', `${flag} ${value} is not available for ${id}; choose ${allowed.join(', ')}`);
+      delete checked[option];
+    }
+  }
+
+  if (options.size) {
+    const size = parameters.sizes?.find((candidate) => candidate.toUpperCase() === options.size!.toUpperCase());
+    if (!parameters.sizes) {
+      unsupported('size', '--size', 'the size follows the aspect ratio');
+    } else if (!size) {
+      report('size', 'error', `size ${options.size} is not available for ${id}; choose ${parameters.sizes.join(', ')}`);
+      delete checked.size;
+    } else {
+      checked.size = size;
+    }
+  }
+
+  if (options.aspectRatio && !parameters.aspectRatios.includes(options.aspectRatio)) {
+    checked.aspectRatio = closestAspectRatio(options.aspectRatio, parameters.aspectRatios);
+    report(
+      'aspectRatio',
+      'warning',
+      `${id} does not support aspect ratio ${options.aspectRatio}; using ${checked.aspectRatio} instead (supported: ${parameters.aspectRatios.join(', ')})`
+    );
+  }
+
+  if (options.numImages !== undefined && options.numImages > parameters.maxImages) {
+    const reason = parameters.maxImagesReason ? ` (${parameters.maxImagesReason})` : '';
+    report('numImages', 'error', `${id} returns at most ${parameters.maxImages} image(s) per request${reason}; use --variations for more`);
+    checked.numImages = parameters.maxImages;
+  }
+
+  return { options: checked, issues };
+}
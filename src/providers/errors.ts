@@ -0,0 +1,103 @@
+import type { GenerationErrorKind, GenerationResult } from '../types';
+
+/**
+ * Error kinds worth retrying: the same request may succeed a little later
+ */
+export const RETRYABLE_ERROR_KINDS: ReadonlySet<GenerationErrorKind> = new Set([
+  'rate_limited',
+  'transient_network',
+  'provider_unavailable',
+]);
+
+export function isRetryable(kind: GenerationErrorKind | undefined): boolean {
+  return kind !== undefined && RETRYABLE_ERROR_KINDS.has(kind);
+}
+
+/**
+ * Error thrown by provider code that already knows what went wrong
+ */
+export class ProviderError extends Error {
+  constructor(public readonly kind: GenerationErrorKind, message: string) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+// Checked in order; the first match wins
+const MESSAGE_PATTERNS: Array<[RegExp, GenerationErrorKind]> = [
+  [/safety|blocked|nsfw|moderation|content policy/i, 'safety_blocked'],
+  [/quota|rate.?limit|RESOURCE_EXHAUSTED|too many requests/i, 'rate_limited'],
+  [/api.?key|api.?token|unauthori[sz]ed|unauthenticated|authentication|permission.?denied/i, 'auth_missing'],
+  [/ECONNRESET|ETIMEDOUT|ECONNREFUSED|EAI_AGAIN|ENOTFOUND|socket hang up|fetch failed|network|timed? ?out/i, 'transient_network'],
+  [/UNAVAILABLE|overloaded|internal error|bad gateway/i, 'provider_unavailable'],
+  [/ENOENT|invalid|unsupported|must be|not allowed/i, 'invalid_params'],
+];
+
+function getStatus(error: unknown): number | undefined {
+  if (!error || typeof error !== 'object') return undefined;
+  const candidate = error as { status?: unknown; response?: { status?: unknown } };
+  const status = candidate.status ?? candidate.response?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Classify free-form error text, e.g. Gemini CLI output or a model's refusal message
+ */
+export function classifyMessage(
+  message: string,
+  fallback: GenerationErrorKind = 'provider_unavailable'
+): GenerationErrorKind {
+  for (const [pattern, kind] of MESSAGE_PATTERNS) {
+    if (pattern.test(message)) return kind;
+  }
+  return fallback;
+}
+
+/**
+ * Map anything a provider SDK can throw onto a GenerationErrorKind.
+ * HTTP status codes take precedence over message matching.
+ */
+export function classifyError(error: unknown): GenerationErrorKind {
+  if (error instanceof ProviderError) return error.kind;
+
+  const status = getStatus(error);
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (status === 401 || status === 403) return 'auth_missing';
+  if (status === 429) return 'rate_limited';
+  if (status !== undefined && status >= 500) return 'provider_unavailable';
+  if (status !== undefined && status >= 400) return classifyMessage(message, 'invalid_params');
+
+  return classifyMessage(message);
+}
+
+/**
+ * Process exit code for each error kind, so scripts can tell failures apart.
+ * 1 is left for usage, config and unexpected errors.
+ */
+export const ERROR_EXIT_CODES: Record<GenerationErrorKind, number> = {
+  invalid_params: 3,
+  auth_missing: 4,
+  safety_blocked: 5,
+  rate_limited: 6,
+  transient_network: 7,
+  provider_unavailable: 8,
+  post_processing: 9,
+};
+
+/**
+ * Exit code for a set of results: 0 when all succeeded, the kind's code when every
+ * failure has the same kind, otherwise 1
+ */
+export function exitCodeFor(results: Array<{ success: boolean; errorKind?: GenerationErrorKind }>): number {
+  const failures = results.filter((result) => !result.success);
+  if (!failures.length) return 0;
+
+  const kinds = new Set(failures.map((result) => result.errorKind));
+  const [kind] = kinds;
+  return kinds.size === 1 && kind ? ERROR_EXIT_CODES[kind] : 1;
+}
+
+export function failure(kind: GenerationErrorKind, error: string): GenerationResult {
+  return { success: false, errorKind: kind, error };
+}
@@ -0,0 +1,58 @@
+import type { GenerateOptions, GenerationErrorKind, Model } from '../types';
+import { getModelDefinition, getProviderPlugin, isKnownModel, modelIds } from './index';
+import { isRetryable } from './errors';
+import { canEdit, checkOptions } from './capabilities';
+
+/**
+ * Whether a failure should move on to the next model in the fallback chain:
+ * anything retryable (once the provider's own retries are spent) or a refusal
+ */
+export function shouldFallBack(kind: GenerationErrorKind | undefined): boolean {
+  return isRetryable(kind) || kind === 'safety_blocked';
+}
+
+/**
+ * The models generation tries in order: options.model, then each fallback. Fallbacks
+ * that can't carry out an edit are skipped rather than generating from scratch.
+ */
+export function fallbackChain(options: GenerateOptions): Model[] {
+  return [
+    options.model,
+    ...(options.fallback ?? []).filter((m) => m !== options.model && canEdit(options, m)),
+  ];
+}
+
+/**
+ * Parse and validate a comma-separated fallback list such as "imagen-4,flux,gpt-image-1"
+ */
+export function parseFallbackList(value: string): Model[] {
+  const models = value.split(',').map((m) => m.trim()).filter(Boolean);
+
+  for (const model of models) {
+    if (!isKnownModel(model)) {
+      throw new Error(`Unknown fallback model: ${model}. Available models: ${modelIds().join(', ')}`);
+    }
+  }
+
+  return models;
+}
+
+/**
+ * Rewrite options meant for one model so they are valid for another (or for options.model
+ * itself), using the target's declared capabilities and parameters. Values the target
+ * can't accept are dropped or adjusted rather than sent.
+ */
+export function translateOptions(options: GenerateOptions, model: Model): GenerateOptions {
+  const target = getModelDefinition(model);
+  const source = getModelDefinition(options.model);
+  const translated: GenerateOptions = { ...options, model };
+
+  // Options only the original provider understands, such as Google's useApi
+  if (target && source && source.provider !== target.provider) {
+    for (const key of getProviderPlugin(source.provider)?.providerOptions ?? []) {
+      delete translated[key];
+    }
+  }
+
+  return checkOptions(translated, new Set()).options;
+}
@@ -1,16 +1,19 @@
 import { GoogleGenAI } from '@google/genai';
 import { spawn } from 'child_process';
+import { existsSync } from 'fs';
+import { copyFile, mkdir, unlink } from 'fs/promises';
 import path from 'path';
-import { BaseProvider } from './base';
-import type { GenerateOptions, GenerationResult, Model, AspectRatio } from '../types';
-import { DEFAULT_OPTIONS } from '../types';
+import { BaseProvider, imagePlaceholder } from './base';
+import type { ImageEncoder } from './base';
+import { classifyError, classifyMessage, failure } from './errors';
+import type { GenerateOptions, GenerationResult, Model, ModelCapabilities, ProviderPlugin, ProviderRequest } from '../types';
+import { ALL_ASPECT_RATIOS, DEFAULT_OPTIONS } from '../types';
 import { readImageAsBase64, getMimeType } from '../utils/download';
 
 const GEMINI_CLI = '/opt/homebrew/bin/gemini';
 
 export class GoogleProvider extends BaseProvider {
   name = 'Google';
-  models: Model[] = ['imagen-3', 'imagen-3-fast', 'imagen-4', 'nano-banana', 'nano-banana-pro'];
 
   private client: GoogleGenAI | null = null;
 
@@ -26,13 +29,13 @@ export class GoogleProvider extends BaseProvider {
     return model === 'nano-banana' || model === 'nano-banana-pro';
   }
 
+  private cliArgs(prompt: string): string[] {
+    return ['--extensions', 'nanobanana', '--yolo', '--prompt', prompt];
+  }
+
   private runGeminiCli(prompt: string): Promise<{ stdout: string; exitCode: number }> {
     return new Promise((resolve, reject) => {
-      const proc = spawn(GEMINI_CLI, [
-        '--extensions', 'nanobanana',
-        '--yolo',
-        '--prompt', prompt,
-      ]);
+      const proc = spawn(GEMINI_CLI, this.cliArgs(prompt));
 
       let stdout = '';
       let stderr = '';
@@ -51,62 +54,68 @@ export class GoogleProvider extends BaseProvider {
     return matches?.length ? matches[matches.length - 1] : null;
   }
 
-  private async generateViaCli(options: GenerateOptions): Promise<GenerationResult> {
-    const startTime = Date.now();
-
-    try {
-      const aspectRatio = (options.aspectRatio || DEFAULT_OPTIONS.aspectRatio).replace(':', 'x');
-      const outputPath = options.output || DEFAULT_OPTIONS.output;
-      const outputDir = path.dirname(outputPath);
-
-      // Build prompt with options appended as prose
-      let fullPrompt = options.prompt;
-      if (options.negativePrompt) {
-        fullPrompt += ` Avoid: ${options.negativePrompt}`;
+  /**
+   * The Gemini CLI prompt: the user's prompt with options appended as text directives.
+   * The pipeline has already removed options these models don't support, so only
+   * the image to edit, aspect ratio, references and size remain.
+   */
+  private buildCliPrompt(options: GenerateOptions): string {
+    const aspectRatio = (options.aspectRatio || DEFAULT_OPTIONS.aspectRatio).replace(':', 'x');
+    const outputDir = path.dirname(options.output || DEFAULT_OPTIONS.output);
+
+    const opts: string[] = [];
+    if (options.editImage) opts.push(`Edit this image: ${options.editImage}`);
+    opts.push(`aspect_ratio: ${aspectRatio}`);
+    if (options.referenceImages?.length) {
+      for (const ref of options.referenceImages) {
+        opts.push(`Reference image path: ${ref}`);
       }
+    }
+    if (options.size) opts.push(`Resolution: ${options.size}`);
+    opts.push(`Output destination: ${outputDir}`);
 
-      // Append all options as text directives
-      const opts: string[] = [];
-      opts.push(`aspect_ratio: ${aspectRatio}`);
-      if (options.referenceImages?.length) {
-        for (const ref of options.referenceImages) {
-          opts.push(`Reference image path: ${ref}`);
-        }
-      }
-      if (options.size) opts.push(`Resolution: ${options.size}`);
-      if (options.transparent) opts.push(`Use transparent background`);
-      if (options.seed) opts.push(`Random seed: ${options.seed}`);
-      if (options.style && options.style !== DEFAULT_OPTIONS.style) opts.push(`Style: ${options.style}`);
-      if (options.quality && options.quality !== DEFAULT_OPTIONS.quality) opts.push(`Quality: ${options.quality}`);
-      if (options.numImages && options.numImages > 1) opts.push(`Generate ${options.numImages} images`);
-      if (options.steps && options.steps !== DEFAULT_OPTIONS.steps) opts.push(`Inference steps: ${options.steps}`);
-      if (options.guidance && options.guidance !== DEFAULT_OPTIONS.guidance) opts.push(`Guidance scale: ${options.guidance}`);
-      opts.push(`Output destination: ${outputDir}`);
+    return options.prompt + ' —' + opts.join(' —');
+  }
 
-      fullPrompt += ' —' + opts.join(' —');
+  private async generateViaCli(options: GenerateOptions): Promise<GenerationResult> {
+    const startTime = Date.now();
 
-      const { stdout, exitCode } = await this.runGeminiCli(fullPrompt);
+    try {
+      const { stdout, exitCode } = await this.runGeminiCli(this.buildCliPrompt(options));
 
       if (exitCode !== 0) {
-        return {
-          success: false,
-          error: `Gemini CLI exited with code ${exitCode}:\n${stdout}`,
-        };
+        return failure(classifyMessage(stdout), `Gemini CLI exited with code ${exitCode}:\n${stdout}`);
       }
 
       const extractedPath = this.extractImagePath(stdout);
       if (!extractedPath) {
-        return {
-          success: false,
-          error: `Could not extract output path from Gemini CLI output:\n${stdout}`,
-        };
+        // The CLI succeeded but produced no image, usually because the model declined
+        return failure(
+          classifyMessage(stdout, 'safety_blocked'),
+          `Could not extract output path from Gemini CLI output:\n${stdout}`
+        );
+      }
+
+      if (!existsSync(extractedPath)) {
+        return failure('provider_unavailable', `Gemini CLI reported ${extractedPath}, but no image is there`);
+      }
+
+      // The CLI saves under its own directory; move the image to the requested path,
+      // which the caller has already claimed
+      const [outputPath] = this.outputPaths(options, 1);
+      if (path.resolve(extractedPath) !== path.resolve(outputPath)) {
+        await mkdir(path.dirname(outputPath), { recursive: true });
+        await copyFile(extractedPath, outputPath);
+        await unlink(extractedPath);
       }
 
       return {
         success: true,
-        outputPath: extractedPath,
+        outputPath,
+        outputPaths: [outputPath],
         metadata: {
           model: options.model,
+          providerModel: 'gemini-cli:nanobanana',
           prompt: options.prompt,
           duration: Date.now() - startTime,
         },
@@ -114,16 +123,62 @@ export class GoogleProvider extends BaseProvider {
     } catch (error) {
       const msg = error instanceof Error ? error.message : 'Unknown error';
       if (msg.includes('ENOENT')) {
-        return {
-          success: false,
-          error: `Gemini CLI not found at ${GEMINI_CLI}. Install it or use --api flag.`,
-        };
+        return failure('provider_unavailable', `Gemini CLI not found at ${GEMINI_CLI}. Install it or use --api flag.`);
       }
-      return { success: false, error: msg };
+      return failure(classifyError(error), msg);
     }
   }
 
-  async generate(options: GenerateOptions): Promise<GenerationResult> {
+  /**
+   * The generateContent request for the options; encode supplies reference image data
+   */
+  private async buildApiRequest(options: GenerateOptions, encode: ImageEncoder) {
+    // Map model names to Gemini API model identifiers
+    const modelMap: Record<string, string> = {
+      'imagen-3': 'imagen-3.0-generate-002',
+      'imagen-3-fast': 'imagen-3.0-fast-generate-001',
+      'imagen-4': 'gemini-3-pro-image-preview',
+      'nano-banana': 'gemini-2.5-flash-image',
+      'nano-banana-pro': 'gemini-3-pro-image-preview',
+    };
+
+    // Multi-part content when there are images: the prompt (an edit instruction when
+    // editing) first, then the image to edit, then each reference
+    const images = [...options.editImage ? [options.editImage] : [], ...options.referenceImages ?? []];
+    const contents = images.length
+      ? [
+          { text: options.prompt },
+          ...await Promise.all(images.map(async (imagePath) => ({
+            inlineData: { mimeType: getMimeType(imagePath), data: await encode(imagePath) },
+          }))),
+        ]
+      : options.prompt;
+
+    return {
+      model: modelMap[options.model] || 'gemini-2.5-flash-image',
+      contents,
+      config: {
+        responseModalities: ['TEXT', 'IMAGE'],
+        imageConfig: {
+          aspectRatio: options.aspectRatio || DEFAULT_OPTIONS.aspectRatio,
+          // Only models that declare sizes (1K/2K/4K) receive one
+          ...(options.size && { imageSize: options.size }),
+        },
+      },
+    };
+  }
+
+  async describeRequest(options: GenerateOptions): Promise<ProviderRequest> {
+    if (this.isNanoBanana(options.model) && !options.useApi) {
+      return {
+        endpoint: GEMINI_CLI,
+        payload: { args: this.cliArgs(this.buildCliPrompt(options)) },
+      };
+    }
+    return { endpoint: 'gemini.models.generateContent', payload: await this.buildApiRequest(options, imagePlaceholder) };
+  }
+
+  protected async generateOnce(options: GenerateOptions): Promise<GenerationResult> {
     // Nano-banana models default to CLI, use API only with --api flag
     if (this.isNanoBanana(options.model) && !options.useApi) {
       return this.generateViaCli(options);
@@ -131,115 +186,43 @@ export class GoogleProvider extends BaseProvider {
 
     // API path — require API key
     if (!this.client) {
-      return {
-        success: false,
-        error: 'GOOGLE_API_KEY or GEMINI_API_KEY environment variable is required. For nanobanana models, omit --api to use Gemini CLI instead.',
-      };
+      return failure(
+        'auth_missing',
+        'GOOGLE_API_KEY or GEMINI_API_KEY environment variable is required. For nanobanana models, omit --api to use Gemini CLI instead.'
+      );
     }
 
     const startTime = Date.now();
 
     try {
-      const aspectRatio = options.aspectRatio || DEFAULT_OPTIONS.aspectRatio;
-      const outputPath = options.output || DEFAULT_OPTIONS.output;
-
-      // Map model names to Gemini API model identifiers
-      const modelMap: Record<string, string> = {
-        'imagen-3': 'imagen-3.0-generate-002',
-        'imagen-3-fast': 'imagen-3.0-fast-generate-001',
-        'imagen-4': 'gemini-3-pro-image-preview',
-        'nano-banana': 'gemini-2.5-flash-image',
-        'nano-banana-pro': 'gemini-3-pro-image-preview',
-      };
-      const modelName = modelMap[options.model] || 'gemini-2.5-flash-image';
-
-      // Determine image size based on model and size option
-      let imageSize: string | undefined;
-      if (options.size) {
-        const sizeUpper = options.size.toUpperCase();
-        if (['1K', '2K', '4K'].includes(sizeUpper)) {
-          imageSize = sizeUpper;
-        }
-      }
+      const request = await this.buildApiRequest(options, readImageAsBase64);
+      const modelName = request.model;
 
-      // Build the prompt
-      let enhancedPrompt = options.prompt;
-      if (options.negativePrompt) {
-        enhancedPrompt += ` Avoid: ${options.negativePrompt}`;
-      }
+      const response = await this.client.models.generateContent(request);
 
-      // Build contents - can be string or array with images
-      let contents: string | Array<{ text?: string; inlineData?: { mimeType: string; data: string } }>;
-
-      if (options.referenceImages?.length) {
-        // Multi-part content with reference images
-        const parts: Array<{ text?: string; inlineData?: { mimeType: string; data: string } }> = [];
-
-        // Add text prompt first
-        parts.push({ text: enhancedPrompt });
-
-        // Add reference images
-        for (const imagePath of options.referenceImages) {
-          const base64 = await readImageAsBase64(imagePath);
-          const mimeType = getMimeType(imagePath);
-          parts.push({
-            inlineData: {
-              mimeType,
-              data: base64,
-            },
-          });
-        }
-        contents = parts;
-      } else {
-        // Simple text prompt
-        contents = enhancedPrompt;
+      // Every candidate can carry image parts; save them all
+      const parts = (response.candidates ?? []).flatMap((candidate) => candidate.content?.parts ?? []);
+      if (!parts.length) {
+        return failure('safety_blocked', 'No content generated - check if the prompt was blocked');
       }
 
-      // Generate with config
-      const response = await this.client.models.generateContent({
-        model: modelName,
-        contents,
-        config: {
-          responseModalities: ['TEXT', 'IMAGE'],
-          imageConfig: {
-            aspectRatio: aspectRatio,
-            ...(imageSize && { imageSize }),
-          },
-        },
-      });
-
-      // Find and save the image from response
-      const candidate = response.candidates?.[0];
-      if (!candidate?.content?.parts?.length) {
-        return {
-          success: false,
-          error: 'No content generated - check if the prompt was blocked',
-        };
-      }
-
-      // Find the image part
-      const imagePart = candidate.content.parts.find(
-        (p: { inlineData?: { data?: string } }) => p.inlineData?.data
-      );
-
-      if (imagePart?.inlineData?.data) {
-        await this.saveBase64Image(imagePart.inlineData.data, outputPath);
-      } else {
+      const images = parts.flatMap((part) => part.inlineData?.data ? [part.inlineData.data] : []);
+      if (!images.length) {
         // Check if there's text explaining why no image
-        const textPart = candidate.content.parts.find(
-          (p: { text?: string }) => p.text
-        );
-        return {
-          success: false,
-          error: textPart?.text || 'No image in response - model may have declined',
-        };
+        const textPart = parts.find((part) => part.text);
+        return failure('safety_blocked', textPart?.text || 'No image in response - model may have declined');
       }
 
+      const outputPaths = this.outputPaths(options, images.length);
+      await Promise.all(images.map((data, i) => this.saveBase64Image(data, outputPaths[i])));
+
       return {
         success: true,
-        outputPath,
+        outputPath: outputPaths[0],
+        outputPaths,
         metadata: {
           model: options.model,
+          providerModel: modelName,
           prompt: options.prompt,
           duration: Date.now() - startTime,
         },
@@ -247,24 +230,74 @@ export class GoogleProvider extends BaseProvider {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
 
-      if (errorMessage.includes('SAFETY') || errorMessage.includes('blocked')) {
-        return {
-          success: false,
-          error: 'Content blocked by safety filters. Try rephrasing your prompt.',
-        };
+      const kind = classifyError(error);
+
+      if (kind === 'safety_blocked') {
+        return failure(kind, 'Content blocked by safety filters. Try rephrasing your prompt.');
       }
 
-      if (errorMessage.includes('quota') || errorMessage.includes('RESOURCE_EXHAUSTED')) {
-        return {
-          success: false,
-          error: 'API quota exceeded. Please try again later.',
-        };
+      if (kind === 'rate_limited') {
+        return failure(kind, 'API quota exceeded. Please try again later.');
       }
 
-      return {
-        success: false,
-        error: errorMessage,
-      };
+      return failure(kind, errorMessage);
     }
   }
 }
+
+const IMAGEN_CAPABILITIES: ModelCapabilities = {
+  referenceImages: 0,
+  transparent: false,
+  negativePrompt: false,
+  seed: false,
+};
+
+// Gemini image models reject candidateCount above 1, so each request returns one image
+const SINGLE_IMAGE = {
+  maxImages: 1,
+  maxImagesReason: 'the Gemini API returns one image per request for image models',
+};
+
+export const googlePlugin: ProviderPlugin = {
+  name: 'google',
+  rateLimit: { concurrency: 1, requestsPerMinute: 10 },
+  providerOptions: ['useApi'],
+  models: [
+    {
+      id: 'imagen-3',
+      description: 'Imagen 3 (Gemini API)',
+      capabilities: IMAGEN_CAPABILITIES,
+      parameters: { aspectRatios: ALL_ASPECT_RATIOS, ...SINGLE_IMAGE },
+      pricing: { perImage: 0.03 },
+    },
+    {
+      id: 'imagen-3-fast',
+      description: 'Imagen 3 Fast (Gemini API)',
+      capabilities: IMAGEN_CAPABILITIES,
+      parameters: { aspectRatios: ALL_ASPECT_RATIOS, ...SINGLE_IMAGE },
+      pricing: { perImage: 0.02 },
+    },
+    {
+      id: 'imagen-4',
+      description: 'Imagen 4 (Gemini API)',
+      capabilities: IMAGEN_CAPABILITIES,
+      parameters: { aspectRatios: ALL_ASPECT_RATIOS, sizes: ['1K', '2K', '4K'], ...SINGLE_IMAGE },
+      pricing: { perImage: 0.04 },
+    },
+    {
+      id: 'nano-banana',
+      description: 'Gemini 2.5 Flash Image, via Gemini CLI or --api',
+      capabilities: { ...IMAGEN_CAPABILITIES, referenceImages: 3, edit: true },
+      parameters: { aspectRatios: ALL_ASPECT_RATIOS, ...SINGLE_IMAGE },
+      pricing: { perImage: 0.039 },
+    },
+    {
+      id: 'nano-banana-pro',
+      description: 'Gemini 3 Pro Image, via Gemini CLI or --api',
+      capabilities: { ...IMAGEN_CAPABILITIES, referenceImages: 14, edit: true },
+      parameters: { aspectRatios: ALL_ASPECT_RATIOS, sizes: ['1K', '2K', '4K'], ...SINGLE_IMAGE },
+      pricing: { perImage: 0.134, multipliers: { '4K': 1.8 } },
+    },
+  ],
+  create: () => new GoogleProvider(),
+};
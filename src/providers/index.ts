@@ -1,49 +1,152 @@
-import type { ImageProvider, Model, Provider } from '../types';
-import { MODEL_TO_PROVIDER } from '../types';
-import { ReplicateProvider } from './replicate';
-import { OpenAIProvider } from './openai';
-import { GoogleProvider } from './google';
+import type { ImageProvider, Model, ModelDefinition, Provider, ProviderPlugin, RateLimit } from '../types';
+import { DEFAULT_RATE_LIMIT } from '../types';
+import { RateLimiter, parseRateLimit } from '../utils/concurrency';
+import { ReplicateProvider, replicatePlugin } from './replicate';
+import { OpenAIProvider, openaiPlugin } from './openai';
+import { GoogleProvider, googlePlugin } from './google';
+import { LocalProvider, localPlugin } from './local';
+import { MockProvider, mockPlugin } from './mock';
 
+export interface RegisteredModel extends ModelDefinition {
+  provider: Provider;
+}
+
+const plugins: Map<Provider, ProviderPlugin> = new Map();
+const models: Map<Model, RegisteredModel> = new Map();
 const providers: Map<Provider, ImageProvider> = new Map();
+const rateLimits: Map<Provider, RateLimit> = new Map();
+const limiters: Map<Provider, RateLimiter> = new Map();
+
+/**
+ * Check that a plugin module exported something usable
+ */
+function validatePlugin(plugin: ProviderPlugin): void {
+  const candidate = plugin as Partial<ProviderPlugin> | undefined;
+  if (!candidate || typeof candidate.name !== 'string' || !candidate.name) {
+    throw new Error('provider plugin must have a name');
+  }
+  if (typeof candidate.create !== 'function') {
+    throw new Error(`provider "${candidate.name}" must have a create() function`);
+  }
+  if (!Array.isArray(candidate.models) || !candidate.models.length) {
+    throw new Error(`provider "${candidate.name}" must declare at least one model`);
+  }
+  for (const model of candidate.models) {
+    if (typeof model?.id !== 'string' || !model.capabilities || !model.parameters) {
+      throw new Error(`provider "${candidate.name}" has a model without id, capabilities and parameters`);
+    }
+  }
+}
+
+/**
+ * Add a provider and its models to the registry. Model ids must be unique across
+ * providers; registering a provider name again replaces the earlier one.
+ */
+export function registerProvider(plugin: ProviderPlugin, source = 'built-in'): void {
+  validatePlugin(plugin);
+
+  for (const model of plugin.models) {
+    const existing = models.get(model.id);
+    if (existing && existing.provider !== plugin.name) {
+      throw new Error(`model "${model.id}" from ${source} is already provided by ${existing.provider}`);
+    }
+  }
+
+  const previous = plugins.get(plugin.name);
+  for (const model of previous?.models ?? []) {
+    models.delete(model.id);
+  }
+
+  plugins.set(plugin.name, plugin);
+  for (const model of plugin.models) {
+    models.set(model.id, { ...model, provider: plugin.name });
+  }
+  providers.delete(plugin.name);
+  rateLimits.set(plugin.name, plugin.rateLimit ?? DEFAULT_RATE_LIMIT);
+  limiters.delete(plugin.name);
+}
+
+registerProvider(replicatePlugin);
+registerProvider(openaiPlugin);
+registerProvider(googlePlugin);
+registerProvider(localPlugin);
+registerProvider(mockPlugin);
+
+export function getModelDefinition(model: Model): RegisteredModel | undefined {
+  return models.get(model);
+}
+
+export function isKnownModel(model: string): boolean {
+  return models.has(model);
+}
+
+export function modelIds(): Model[] {
+  return [...models.keys()];
+}
+
+export function getProviderPlugin(providerName: Provider): ProviderPlugin | undefined {
+  return plugins.get(providerName);
+}
+
+function requireModel(model: Model): RegisteredModel {
+  const definition = models.get(model);
+  if (!definition) {
+    throw new Error(`Unknown model: ${model}. Available models: ${modelIds().join(', ')}`);
+  }
+  return definition;
+}
 
-function getOrCreateProvider(providerName: Provider): ImageProvider {
+export function getProviderForModel(model: Model): ImageProvider {
+  const providerName = requireModel(model).provider;
   let provider = providers.get(providerName);
 
   if (!provider) {
-    switch (providerName) {
-      case 'replicate':
-        provider = new ReplicateProvider();
-        break;
-      case 'openai':
-        provider = new OpenAIProvider();
-        break;
-      case 'google':
-        provider = new GoogleProvider();
-        break;
-      default:
-        throw new Error(`Unknown provider: ${providerName}`);
-    }
+    provider = plugins.get(providerName)!.create();
     providers.set(providerName, provider);
   }
 
   return provider;
 }
 
-export function getProviderForModel(model: Model): ImageProvider {
-  const providerName = MODEL_TO_PROVIDER[model];
+/**
+ * Override the concurrency / requests-per-minute limit for a provider.
+ * Must be called before the provider's first generation.
+ */
+export function setProviderRateLimit(providerName: Provider, limit: RateLimit): void {
+  if (!plugins.has(providerName)) {
+    throw new Error(`Unknown provider: ${providerName}. Available providers: ${[...plugins.keys()].join(', ')}`);
+  }
+  rateLimits.set(providerName, limit);
+  limiters.delete(providerName);
+}
+
+/**
+ * Apply "provider=concurrency[/rpm]" specs from the command line, e.g. "replicate=4/60"
+ */
+export function applyProviderLimits(specs: string[] = []): void {
+  for (const spec of specs) {
+    const [providerName, limit] = spec.split('=');
+    if (!limit) {
+      throw new Error(`Invalid provider limit "${spec}". Expected provider=concurrency[/rpm]`);
+    }
+    setProviderRateLimit(providerName, parseRateLimit(limit));
+  }
+}
+
+export function getRateLimiterForModel(model: Model): RateLimiter {
+  const providerName = requireModel(model).provider;
+  let limiter = limiters.get(providerName);
 
-  if (!providerName) {
-    throw new Error(`Unknown model: ${model}. Available models: ${Object.keys(MODEL_TO_PROVIDER).join(', ')}`);
+  if (!limiter) {
+    limiter = new RateLimiter(rateLimits.get(providerName)!);
+    limiters.set(providerName, limiter);
   }
 
-  return getOrCreateProvider(providerName);
+  return limiter;
 }
 
-export function listModels(): { model: Model; provider: Provider }[] {
-  return Object.entries(MODEL_TO_PROVIDER).map(([model, provider]) => ({
-    model: model as Model,
-    provider,
-  }));
+export function listModels(): { model: Model; provider: Provider; description?: string }[] {
+  return [...models.values()].map(({ id, provider, description }) => ({ model: id, provider, description }));
 }
 
-export { ReplicateProvider, OpenAIProvider, GoogleProvider };
+export { ReplicateProvider, OpenAIProvider, GoogleProvider, LocalProvider, MockProvider };
@@ -0,0 +1,350 @@
+import { BaseProvider, imagePlaceholder } from './base';
+import type { ImageEncoder } from './base';
+import { failure } from './errors';
+import type { AspectRatio, GenerateOptions, GenerationResult, ModelCapabilities, ModelParameters, ProviderPlugin, ProviderRequest } from '../types';
+import { ALL_ASPECT_RATIOS, ASPECT_RATIO_TO_DIMENSIONS, DEFAULT_OPTIONS } from '../types';
+import { readImageAsBase64 } from '../utils/download';
+import { readMask } from '../utils/mask';
+
+const DEFAULT_A1111_URL = 'http://127.0.0.1:7860';
+const DEFAULT_COMFYUI_URL = 'http://127.0.0.1:8188';
+const DEFAULT_COMFYUI_CHECKPOINT = 'sd_xl_base_1.0.safetensors';
+
+// How much img2img may change the reference image (0 keeps it, 1 ignores it)
+const IMG2IMG_DENOISE = 0.75;
+const COMFYUI_POLL_MS = 1000;
+const COMFYUI_TIMEOUT_MS = 10 * 60_000;
+
+interface ComfyImage {
+  filename: string;
+  subfolder: string;
+  type: string;
+}
+
+interface ComfyHistoryEntry {
+  status?: { status_str?: string; completed?: boolean; messages?: unknown[] };
+  outputs?: Record<string, { images?: ComfyImage[] }>;
+}
+
+function serverUrl(envVar: string, fallback: string): string {
+  return (process.env[envVar] || fallback).replace(/\/+$/, '');
+}
+
+/**
+ * Stable Diffusion running on your own machine, through an Automatic1111-compatible
+ * web UI (--api) or a ComfyUI server. Nothing here needs an API key.
+ */
+export class LocalProvider extends BaseProvider {
+  name = 'Local';
+
+  /**
+   * Call the local server, turning HTTP errors into errors classifyError understands
+   * and a refused connection into a hint about which URL was tried
+   */
+  private async request<T>(base: string, envVar: string, path: string, init?: RequestInit): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${base}${path}`, init);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'connection failed';
+      throw new Error(`No response from ${base} (${reason}). Is the server running? Set ${envVar} to change the URL.`);
+    }
+
+    if (!response.ok) {
+      const body = (await response.text()).slice(0, 500);
+      throw Object.assign(new Error(`${base}${path} returned ${response.status}: ${body}`), { status: response.status });
+    }
+    return (await response.json()) as T;
+  }
+
+  private dimensions(options: GenerateOptions) {
+    return ASPECT_RATIO_TO_DIMENSIONS[(options.aspectRatio || DEFAULT_OPTIONS.aspectRatio) as AspectRatio];
+  }
+
+  /**
+   * The txt2img body, or the img2img body when editing or given a reference image.
+   * encodeMask supplies the inpainting mask (white = repaint).
+   */
+  private async buildA1111Payload(
+    options: GenerateOptions,
+    encode: ImageEncoder,
+    encodeMask: ImageEncoder
+  ): Promise<Record<string, unknown>> {
+    const { width, height } = this.dimensions(options);
+
+    const payload: Record<string, unknown> = {
+      prompt: options.prompt,
+      negative_prompt: options.negativePrompt ?? '',
+      seed: options.seed ?? -1,
+      width,
+      height,
+      batch_size: options.numImages || 1,
+      ...(options.steps && { steps: options.steps }),
+      ...(options.guidance && { cfg_scale: options.guidance }),
+    };
+
+    const source = this.sourceImage(options);
+    if (source) {
+      payload.init_images = [await encode(source)];
+      payload.denoising_strength = options.strength ?? IMG2IMG_DENOISE;
+    }
+    if (options.editImage && options.mask) {
+      payload.mask = await encodeMask(options.mask);
+      // Start the masked area from the original pixels and keep the rest untouched
+      payload.inpainting_fill = 1;
+      payload.inpaint_full_res = false;
+    }
+    return payload;
+  }
+
+  /**
+   * The image img2img starts from: the one being edited, or else the reference
+   */
+  private sourceImage(options: GenerateOptions): string | undefined {
+    return options.editImage ?? options.referenceImages?.[0];
+  }
+
+  private a1111Path(options: GenerateOptions): string {
+    return this.sourceImage(options) ? '/sdapi/v1/img2img' : '/sdapi/v1/txt2img';
+  }
+
+  private async generateA1111(options: GenerateOptions): Promise<GenerationResult> {
+    const startTime = Date.now();
+    const base = serverUrl('IMG_GEN_A1111_URL', DEFAULT_A1111_URL);
+    const payload = await this.buildA1111Payload(
+      options,
+      readImageAsBase64,
+      async (path) => (await readMask(path, options.editImage!)).toString('base64')
+    );
+
+    const response = await this.request<{ images?: string[]; info?: string }>(
+      base,
+      'IMG_GEN_A1111_URL',
+      this.a1111Path(options),
+      { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify(payload) }
+    );
+
+    // With a batch, A1111 may put a grid of all images first; keep the batch itself
+    const images = (response.images ?? []).slice(-(options.numImages || 1));
+    if (!images.length) {
+      return failure('provider_unavailable', 'No image data in response');
+    }
+
+    // info is a JSON string with the seed actually used and the loaded checkpoint
+    let info: { seed?: number; sd_model_name?: string } = {};
+    try {
+      info = JSON.parse(response.info ?? '{}');
+    } catch {
+      // Older forks omit or mangle info; the image is still good
+    }
+
+    const outputPaths = this.outputPaths(options, images.length);
+    await Promise.all(images.map((image, i) => this.saveBase64Image(image, outputPaths[i])));
+
+    return {
+      success: true,
+      outputPath: outputPaths[0],
+      outputPaths,
+      metadata: {
+        model: options.model,
+        providerModel: info.sd_model_name ? `a1111:${info.sd_model_name}` : 'a1111',
+        prompt: options.prompt,
+        seed: info.seed ?? options.seed,
+        duration: Date.now() - startTime,
+      },
+    };
+  }
+
+  /**
+   * Upload an image to ComfyUI's input folder, returning the name LoadImage expects
+   */
+  private async uploadComfyImage(base: string, path: string, data: Blob = Bun.file(path)): Promise<string> {
+    const form = new FormData();
+    form.append('image', data, path.split('/').pop() || 'reference.png');
+    form.append('overwrite', 'true');
+    const uploaded = await this.request<{ name: string; subfolder?: string }>(
+      base,
+      'IMG_GEN_COMFYUI_URL',
+      '/upload/image',
+      { method: 'POST', body: form }
+    );
+    return uploaded.subfolder ? `${uploaded.subfolder}/${uploaded.name}` : uploaded.name;
+  }
+
+  /**
+   * A minimal checkpoint → sampler → save graph in ComfyUI's API format, with
+   * LoadImage/VAEEncode feeding the sampler for img2img, and SetLatentNoiseMask
+   * limiting it to the masked area for inpainting
+   */
+  private comfyWorkflow(options: GenerateOptions, seed: number, checkpoint: string, reference?: string, mask?: string) {
+    const { width, height } = this.dimensions(options);
+    const workflow: Record<string, { class_type: string; inputs: Record<string, unknown> }> = {
+      checkpoint: { class_type: 'CheckpointLoaderSimple', inputs: { ckpt_name: checkpoint } },
+      positive: { class_type: 'CLIPTextEncode', inputs: { text: options.prompt, clip: ['checkpoint', 1] } },
+      negative: { class_type: 'CLIPTextEncode', inputs: { text: options.negativePrompt ?? '', clip: ['checkpoint', 1] } },
+      latent: {
+        class_type: 'EmptyLatentImage',
+        inputs: { width, height, batch_size: options.numImages || 1 },
+      },
+      sampler: {
+        class_type: 'KSampler',
+        inputs: {
+          seed,
+          steps: options.steps ?? 20,
+          cfg: options.guidance ?? 7,
+          sampler_name: 'euler',
+          scheduler: 'normal',
+          denoise: reference ? options.strength ?? IMG2IMG_DENOISE : 1,
+          model: ['checkpoint', 0],
+          positive: ['positive', 0],
+          negative: ['negative', 0],
+          latent_image: ['latent', 0],
+        },
+      },
+      decode: { class_type: 'VAEDecode', inputs: { samples: ['sampler', 0], vae: ['checkpoint', 2] } },
+      save: { class_type: 'SaveImage', inputs: { filename_prefix: 'img-gen', images: ['decode', 0] } },
+    };
+
+    if (reference) {
+      workflow.reference = { class_type: 'LoadImage', inputs: { image: reference } };
+      workflow.latent = { class_type: 'VAEEncode', inputs: { pixels: ['reference', 0], vae: ['checkpoint', 2] } };
+    }
+    if (reference && mask) {
+      workflow.mask = { class_type: 'LoadImageMask', inputs: { image: mask, channel: 'red' } };
+      workflow.masked = { class_type: 'SetLatentNoiseMask', inputs: { samples: ['latent', 0], mask: ['mask', 0] } };
+      workflow.sampler.inputs.latent_image = ['masked', 0];
+    }
+    return workflow;
+  }
+
+  private comfySeed(options: GenerateOptions): number {
+    // KSampler needs a concrete seed; pick one so the image can be reproduced
+    return options.seed ?? Math.floor(Math.random() * 2 ** 32);
+  }
+
+  async describeRequest(options: GenerateOptions): Promise<ProviderRequest> {
+    if (options.model !== 'comfyui') {
+      return {
+        endpoint: `POST ${serverUrl('IMG_GEN_A1111_URL', DEFAULT_A1111_URL)}${this.a1111Path(options)}`,
+        payload: await this.buildA1111Payload(options, imagePlaceholder, imagePlaceholder),
+      };
+    }
+
+    const checkpoint = process.env.IMG_GEN_COMFYUI_CHECKPOINT || DEFAULT_COMFYUI_CHECKPOINT;
+    const source = this.sourceImage(options);
+    const reference = source && await imagePlaceholder(source);
+    const mask = options.editImage && options.mask ? await imagePlaceholder(options.mask) : undefined;
+    return {
+      endpoint: `POST ${serverUrl('IMG_GEN_COMFYUI_URL', DEFAULT_COMFYUI_URL)}/prompt`,
+      payload: { prompt: this.comfyWorkflow(options, this.comfySeed(options), checkpoint, reference, mask) },
+    };
+  }
+
+  private async generateComfyUI(options: GenerateOptions): Promise<GenerationResult> {
+    const startTime = Date.now();
+    const base = serverUrl('IMG_GEN_COMFYUI_URL', DEFAULT_COMFYUI_URL);
+    const checkpoint = process.env.IMG_GEN_COMFYUI_CHECKPOINT || DEFAULT_COMFYUI_CHECKPOINT;
+    const seed = this.comfySeed(options);
+
+    const source = this.sourceImage(options);
+    const reference = source ? await this.uploadComfyImage(base, source) : undefined;
+    const mask = options.editImage && options.mask
+      ? await this.uploadComfyImage(base, 'img-gen-mask.png', new Blob([new Uint8Array(await readMask(options.mask, options.editImage))]))
+      : undefined;
+
+    const { prompt_id: promptId } = await this.request<{ prompt_id: string }>(
+      base,
+      'IMG_GEN_COMFYUI_URL',
+      '/prompt',
+      {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ prompt: this.comfyWorkflow(options, seed, checkpoint, reference, mask), client_id: 'img-gen' }),
+      }
+    );
+
+    // The prompt is queued; its history entry appears once it has run
+    let entry: ComfyHistoryEntry | undefined;
+    while (!entry) {
+      if (Date.now() - startTime > COMFYUI_TIMEOUT_MS) {
+        return failure('provider_unavailable', `ComfyUI did not finish prompt ${promptId} within ${COMFYUI_TIMEOUT_MS / 60_000} minutes`);
+      }
+      await Bun.sleep(COMFYUI_POLL_MS);
+      const history = await this.request<Record<string, ComfyHistoryEntry>>(base, 'IMG_GEN_COMFYUI_URL', `/history/${promptId}`);
+      entry = history[promptId];
+    }
+
+    if (entry.status?.status_str === 'error') {
+      return failure('invalid_params', `ComfyUI failed to run the workflow: ${JSON.stringify(entry.status.messages ?? []).slice(0, 500)}`);
+    }
+
+    const images = Object.values(entry.outputs ?? {}).flatMap((output) => output.images ?? []);
+    if (!images.length) {
+      return failure('provider_unavailable', 'No image in ComfyUI output');
+    }
+
+    const outputPaths = this.outputPaths(options, images.length);
+    await Promise.all(images.map((image, i) => {
+      const query = new URLSearchParams({ filename: image.filename, subfolder: image.subfolder, type: image.type });
+      return this.saveImage(`${base}/view?${query}`, outputPaths[i]);
+    }));
+
+    return {
+      success: true,
+      outputPath: outputPaths[0],
+      outputPaths,
+      metadata: {
+        model: options.model,
+        providerModel: `comfyui:${checkpoint}`,
+        prompt: options.prompt,
+        seed,
+        duration: Date.now() - startTime,
+      },
+    };
+  }
+
+  protected async generateOnce(options: GenerateOptions): Promise<GenerationResult> {
+    // Thrown errors (HTTP status, refused connection) are classified by BaseProvider
+    return options.model === 'comfyui' ? this.generateComfyUI(options) : this.generateA1111(options);
+  }
+}
+
+const SD_CAPABILITIES: ModelCapabilities = {
+  referenceImages: 1,
+  transparent: false,
+  negativePrompt: true,
+  seed: true,
+  edit: true,
+  mask: true,
+  strength: true,
+};
+
+const SD_PARAMETERS: ModelParameters = {
+  aspectRatios: ALL_ASPECT_RATIOS,
+  steps: { min: 1, max: 150 },
+  guidance: { min: 1, max: 30 },
+  maxImages: 8,
+};
+
+export const localPlugin: ProviderPlugin = {
+  name: 'local',
+  // One GPU: run one image at a time
+  rateLimit: { concurrency: 1 },
+  models: [
+    {
+      id: 'a1111',
+      description: 'Stable Diffusion via a local Automatic1111/Forge web UI (IMG_GEN_A1111_URL)',
+      capabilities: SD_CAPABILITIES,
+      parameters: SD_PARAMETERS,
+      pricing: { perImage: 0 },
+    },
+    {
+      id: 'comfyui',
+      description: 'Stable Diffusion via a local ComfyUI server (IMG_GEN_COMFYUI_URL)',
+      capabilities: SD_CAPABILITIES,
+      parameters: SD_PARAMETERS,
+      pricing: { perImage: 0 },
+    },
+  ],
+  create: () => new LocalProvider(),
+};
@@ -0,0 +1,175 @@
+import sharp from 'sharp';
+import { createHash } from 'crypto';
+import { mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { BaseProvider } from './base';
+import { failure } from './errors';
+import type { AspectRatio, GenerateOptions, GenerationErrorKind, GenerationResult, ProviderPlugin, ProviderRequest } from '../types';
+import { ALL_ASPECT_RATIOS, ASPECT_RATIO_TO_DIMENSIONS, DEFAULT_OPTIONS } from '../types';
+
+const ERROR_KINDS: GenerationErrorKind[] = [
+  'rate_limited', 'safety_blocked', 'auth_missing', 'invalid_params', 'transient_network', 'provider_unavailable',
+];
+
+const LINE_LENGTH = 32;
+const MAX_LINES = 6;
+
+interface MockFailure {
+  kind: GenerationErrorKind;
+  /** Fail only the first N attempts in this process; undefined fails every attempt */
+  attempts?: number;
+}
+
+/**
+ * IMG_GEN_MOCK_LATENCY: "500" waits 500ms per attempt, "200-800" a random time in that range
+ */
+function parseLatency(value = ''): [number, number] {
+  const match = value.match(/^(\d+)(?:-(\d+))?$/);
+  if (!value || !match) return [0, 0];
+  const min = Number(match[1]);
+  return [min, match[2] ? Math.max(min, Number(match[2])) : min];
+}
+
+/**
+ * IMG_GEN_MOCK_FAIL: "rate_limited" fails every attempt, "rate_limited:2" the first two
+ */
+function parseFailure(value = ''): MockFailure | undefined {
+  const [kind, attempts] = value.split(':');
+  if (!ERROR_KINDS.includes(kind as GenerationErrorKind)) return undefined;
+  return { kind: kind as GenerationErrorKind, attempts: attempts ? Number(attempts) : undefined };
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function wrap(text: string): string[] {
+  const lines: string[] = [];
+  for (const word of text.replace(/\s+/g, ' ').trim().split(' ')) {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && (last + ' ' + word).length <= LINE_LENGTH) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word.slice(0, LINE_LENGTH));
+    }
+  }
+  return lines.length > MAX_LINES ? [...lines.slice(0, MAX_LINES - 1), '…'] : lines;
+}
+
+/**
+ * Offline provider for tests, demos and CI. Draws a placeholder whose colors come from
+ * a hash of the prompt and seed, so the same request always produces the same image.
+ * Latency and failures can be injected with IMG_GEN_MOCK_LATENCY and IMG_GEN_MOCK_FAIL.
+ */
+export class MockProvider extends BaseProvider {
+  name = 'Mock';
+
+  private attempts = 0;
+
+  /**
+   * Everything that determines the image. Later images of a numImages request vary
+   * the colors, as a real model would vary the picture.
+   */
+  private design(options: GenerateOptions, index = 0) {
+    const edit = options.editImage ? `\0${options.editImage}\0${options.mask ?? ''}\0${options.strength ?? ''}` : '';
+    const hash = createHash('sha256').update(`${options.prompt}\0${options.seed ?? ''}${edit}${index ? `\0${index}` : ''}`).digest();
+    const { width, height } = ASPECT_RATIO_TO_DIMENSIONS[(options.aspectRatio || DEFAULT_OPTIONS.aspectRatio) as AspectRatio];
+    const color = (offset: number) => `#${hash.subarray(offset, offset + 3).toString('hex')}`;
+    const luminance = 0.299 * hash[0] + 0.587 * hash[1] + 0.114 * hash[2];
+
+    return {
+      width,
+      height,
+      colors: hash[6] % 2 ? [color(0), color(3)] : [color(0)],
+      textColor: luminance > 140 ? '#111111' : '#ffffff',
+      text: wrap(options.prompt),
+      transparent: !!options.transparent,
+    };
+  }
+
+  async describeRequest(options: GenerateOptions): Promise<ProviderRequest> {
+    return {
+      endpoint: 'mock',
+      payload: {
+        ...this.design(options),
+        images: options.numImages || 1,
+        seed: options.seed,
+        latencyMs: parseLatency(process.env.IMG_GEN_MOCK_LATENCY),
+        fail: parseFailure(process.env.IMG_GEN_MOCK_FAIL),
+      },
+    };
+  }
+
+  private svg(design: ReturnType<MockProvider['design']>): string {
+    const { width, height, colors, textColor, text, transparent } = design;
+    const fontSize = Math.round(Math.min(width, height) / 14);
+    const fill = colors.length > 1 ? 'url(#bg)' : colors[0];
+    // Transparent images keep a clear margin around a rounded card
+    const inset = transparent ? Math.round(Math.min(width, height) / 10) : 0;
+    const firstLine = height / 2 - ((text.length - 1) * fontSize * 1.25) / 2;
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+      <defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">
+        <stop offset="0" stop-color="${colors[0]}"/><stop offset="1" stop-color="${colors[colors.length - 1]}"/>
+      </linearGradient></defs>
+      <rect x="${inset}" y="${inset}" width="${width - 2 * inset}" height="${height - 2 * inset}" rx="${inset / 2}" fill="${fill}"/>
+      ${text.map((line, i) => `<text x="50%" y="${firstLine + i * fontSize * 1.25}" text-anchor="middle" dominant-baseline="middle" font-family="Helvetica, Arial, sans-serif" font-size="${fontSize}" fill="${textColor}">${escapeXml(line)}</text>`).join('\n      ')}
+    </svg>`;
+  }
+
+  protected async generateOnce(options: GenerateOptions): Promise<GenerationResult> {
+    const startTime = Date.now();
+    const attempt = ++this.attempts;
+
+    const [min, max] = parseLatency(process.env.IMG_GEN_MOCK_LATENCY);
+    if (max) await Bun.sleep(min + Math.random() * (max - min));
+
+    const injected = parseFailure(process.env.IMG_GEN_MOCK_FAIL);
+    if (injected && (injected.attempts === undefined || attempt <= injected.attempts)) {
+      return failure(injected.kind, `Mock failure (${injected.kind}) injected by IMG_GEN_MOCK_FAIL`);
+    }
+
+    const outputPaths = this.outputPaths(options, options.numImages || 1);
+    for (const [i, outputPath] of outputPaths.entries()) {
+      await mkdir(dirname(outputPath), { recursive: true });
+      await sharp(Buffer.from(this.svg(this.design(options, i)))).png().toFile(outputPath);
+    }
+
+    return {
+      success: true,
+      outputPath: outputPaths[0],
+      outputPaths,
+      metadata: {
+        model: options.model,
+        providerModel: 'mock',
+        prompt: options.prompt,
+        seed: options.seed,
+        duration: Date.now() - startTime,
+      },
+    };
+  }
+}
+
+export const mockPlugin: ProviderPlugin = {
+  name: 'mock',
+  rateLimit: { concurrency: 8 },
+  models: [
+    {
+      id: 'mock',
+      description: 'Offline placeholder images for tests and dry runs (no API key)',
+      capabilities: {
+        referenceImages: 14, transparent: true, negativePrompt: true, seed: true, edit: true, mask: true, strength: true,
+      },
+      parameters: {
+        aspectRatios: ALL_ASPECT_RATIOS,
+        steps: { min: 1, max: 150 },
+        guidance: { min: 0, max: 30 },
+        quality: ['standard', 'hd'],
+        style: ['vivid', 'natural'],
+        maxImages: 4,
+      },
+      pricing: { perImage: 0 },
+    },
+  ],
+  create: () => new MockProvider(),
+};
@@ -1,121 +1,113 @@
 import OpenAI, { toFile } from 'openai';
-import { BaseProvider } from './base';
-import type { GenerateOptions, GenerationResult, Model, AspectRatio, OpenAISize } from '../types';
+import { BaseProvider, imagePlaceholder } from './base';
+import { classifyError, failure } from './errors';
+import type { GenerateOptions, GenerationResult, AspectRatio, OpenAISize, ModelPricing, ProviderPlugin, ProviderRequest } from '../types';
 import { DEFAULT_OPTIONS } from '../types';
-import { readImageAsBase64, getMimeType } from '../utils/download';
+import { readMask, toAlphaMask } from '../utils/mask';
 import { readFileSync } from 'fs';
 
-const ASPECT_TO_OPENAI_SIZE: Record<AspectRatio, OpenAISize> = {
+// GPT Image only renders these three shapes; the pipeline maps other ratios to the closest
+const ASPECT_TO_OPENAI_SIZE: Partial<Record<AspectRatio, OpenAISize>> = {
   '1:1': '1024x1024',
-  '16:9': '1792x1024',
-  '9:16': '1024x1792',
-  '4:3': '1024x1024', // Closest match
-  '3:4': '1024x1024', // Closest match
-  '3:2': '1792x1024', // Closest match
-  '2:3': '1024x1792', // Closest match
-  '4:5': '1024x1024', // Closest match
-  '5:4': '1024x1024', // Closest match
-  '21:9': '1792x1024', // Closest match (ultrawide)
+  '3:2': '1536x1024',
+  '2:3': '1024x1536',
 };
 
 export class OpenAIProvider extends BaseProvider {
   name = 'OpenAI';
-  models: Model[] = ['gpt-image-1', 'gpt-image-1.5'];
 
-  private client: OpenAI;
+  private client: OpenAI | null = null;
 
   constructor() {
     super();
     const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is required');
+    if (apiKey) {
+      this.client = new OpenAI({ apiKey });
     }
-    this.client = new OpenAI({ apiKey });
   }
 
-  async generate(options: GenerateOptions): Promise<GenerationResult> {
+  /**
+   * The images.generate or images.edit call for the options. An edit (or gpt-image-1.5
+   * with a reference image) goes to images.edit with the images to work from, the
+   * edited image first; everything else generates from the prompt.
+   */
+  private buildRequest(options: GenerateOptions) {
+    const aspectRatio = options.aspectRatio || DEFAULT_OPTIONS.aspectRatio;
+    const model = 'gpt-image-1';
+    const images = options.editImage
+      ? [options.editImage, ...options.referenceImages ?? []]
+      : options.model === 'gpt-image-1.5' ? options.referenceImages?.slice(0, 1) ?? [] : [];
+
+    const params = {
+      model,
+      prompt: options.prompt,
+      n: options.numImages || 1,
+      size: options.size as OpenAISize || ASPECT_TO_OPENAI_SIZE[aspectRatio as AspectRatio] || '1024x1024',
+      quality: options.quality === 'hd' ? 'high' as const : 'medium' as const,
+      background: options.transparent ? 'transparent' as const : 'opaque' as const,
+    };
+
+    return images.length
+      ? { endpoint: 'images.edit' as const, params, images, mask: options.editImage ? options.mask : undefined }
+      : { endpoint: 'images.generate' as const, params: { ...params, output_format: 'png' as const } };
+  }
+
+  async describeRequest(options: GenerateOptions): Promise<ProviderRequest> {
+    const { endpoint, params, images, mask } = this.buildRequest(options);
+    return {
+      endpoint: `openai.${endpoint}`,
+      payload: {
+        ...params,
+        ...(images && { image: await Promise.all(images.map(imagePlaceholder)) }),
+        ...(mask && { mask: await imagePlaceholder(mask) }),
+      },
+    };
+  }
+
+  protected async generateOnce(options: GenerateOptions): Promise<GenerationResult> {
+    if (!this.client) {
+      return failure('auth_missing', 'OPENAI_API_KEY environment variable is required');
+    }
+
     const startTime = Date.now();
 
     try {
-      const aspectRatio = options.aspectRatio || DEFAULT_OPTIONS.aspectRatio;
-      const size = options.size as OpenAISize || ASPECT_TO_OPENAI_SIZE[aspectRatio as AspectRatio] || '1024x1024';
-      const outputPath = options.output || DEFAULT_OPTIONS.output;
-
-      const model = options.model === 'gpt-image-1.5' ? 'gpt-image-1' : 'gpt-image-1';
-      const isEditMode = options.referenceImages?.length && options.model === 'gpt-image-1.5';
-
-      if (isEditMode && options.referenceImages?.length) {
-        // gpt-image-1.5 with reference images uses edit mode
-        const refImage = options.referenceImages[0];
-        const imageBuffer = readFileSync(refImage);
-        const imageFile = await toFile(imageBuffer, refImage.split('/').pop() || 'image.png');
-
-        // Use images.edit for image editing
-        const response = await this.client.images.edit({
-          model: 'gpt-image-1',
-          image: imageFile,
-          prompt: options.prompt,
-          n: options.numImages || 1,
-          size: size as '1024x1024' | '1536x1024' | '1024x1536',
-        });
-
-        const imageData = response.data?.[0];
-
-        if (!imageData) {
-          return {
-            success: false,
-            error: 'No image data in response',
-          };
-        }
-
-        if (imageData.b64_json) {
-          await this.saveBase64Image(imageData.b64_json, outputPath);
-        } else if (imageData.url) {
-          await this.saveImage(imageData.url, outputPath);
-        } else {
-          return {
-            success: false,
-            error: 'No image data in response',
-          };
-        }
+      const request = this.buildRequest(options);
+      const model = request.params.model;
+
+      let response: OpenAI.ImagesResponse;
+      if (request.images) {
+        // Use images.edit for image editing; the mask applies to the first image
+        const imageFiles = await Promise.all(request.images.map((path) =>
+          toFile(readFileSync(path), path.split('/').pop() || 'image.png')
+        ));
+        const mask = request.mask
+          ? await toFile(await toAlphaMask(await readMask(request.mask, request.images[0])), 'mask.png', { type: 'image/png' })
+          : undefined;
+        response = await this.client.images.edit({ ...request.params, image: imageFiles, ...(mask && { mask }) });
       } else {
-        // Standard generation
-        const response = await this.client.images.generate({
-          model: 'gpt-image-1',
-          prompt: options.prompt,
-          n: options.numImages || 1,
-          size: size as '1024x1024' | '1536x1024' | '1024x1536',
-          quality: options.quality === 'hd' ? 'high' : 'medium',
-          background: options.transparent ? 'transparent' : 'opaque',
-          output_format: 'png',
-        });
-
-        const imageData = response.data?.[0];
-
-        if (!imageData) {
-          return {
-            success: false,
-            error: 'No image data in response',
-          };
-        }
-
-        if (imageData.b64_json) {
-          await this.saveBase64Image(imageData.b64_json, outputPath);
-        } else if (imageData.url) {
-          await this.saveImage(imageData.url, outputPath);
-        } else {
-          return {
-            success: false,
-            error: 'No image data in response',
-          };
-        }
+        response = await this.client.images.generate(request.params);
       }
 
+      // One entry per image requested with n
+      const images = (response.data ?? []).filter((image) => image.b64_json || image.url);
+      if (!images.length) {
+        return failure('provider_unavailable', 'No image data in response');
+      }
+
+      const outputPaths = this.outputPaths(options, images.length);
+      await Promise.all(images.map((image, i) => image.b64_json
+        ? this.saveBase64Image(image.b64_json, outputPaths[i])
+        : this.saveImage(image.url!, outputPaths[i])
+      ));
+
       return {
         success: true,
-        outputPath,
+        outputPath: outputPaths[0],
+        outputPaths,
         metadata: {
           model: options.model,
+          providerModel: model,
           prompt: options.prompt,
           duration: Date.now() - startTime,
         },
@@ -124,17 +116,52 @@ export class OpenAIProvider extends BaseProvider {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
 
       // Handle specific OpenAI errors
+      if (error instanceof OpenAI.APIConnectionError) {
+        return failure('transient_network', `OpenAI connection error: ${error.message}`);
+      }
+
       if (error instanceof OpenAI.APIError) {
-        return {
-          success: false,
-          error: `OpenAI API Error (${error.status}): ${error.message}`,
-        };
+        const kind = error.code === 'moderation_blocked' ? 'safety_blocked' : classifyError(error);
+        return failure(kind, `OpenAI API Error (${error.status}): ${error.message}`);
       }
 
-      return {
-        success: false,
-        error: errorMessage,
-      };
+      return failure(classifyError(error), errorMessage);
     }
   }
 }
+
+const GPT_IMAGE_PARAMETERS = {
+  aspectRatios: ['1:1', '3:2', '2:3'] as AspectRatio[],
+  sizes: ['1024x1024', '1536x1024', '1024x1536'],
+  quality: ['standard', 'hd'] as Array<'standard' | 'hd'>,
+  maxImages: 10,
+};
+
+// Medium quality at 1024x1024; the wide and tall sizes cost half as much again
+const GPT_IMAGE_PRICING: ModelPricing = {
+  perImage: 0.042,
+  quality: { standard: 0.042, hd: 0.167 },
+  multipliers: { '1536x1024': 1.5, '1024x1536': 1.5, '3:2': 1.5, '2:3': 1.5 },
+};
+
+export const openaiPlugin: ProviderPlugin = {
+  name: 'openai',
+  rateLimit: { concurrency: 2, requestsPerMinute: 5 },
+  models: [
+    {
+      id: 'gpt-image-1',
+      description: 'OpenAI GPT Image, supports transparent backgrounds',
+      capabilities: { referenceImages: 0, transparent: true, negativePrompt: false, seed: false, edit: true, mask: true },
+      parameters: GPT_IMAGE_PARAMETERS,
+      pricing: GPT_IMAGE_PRICING,
+    },
+    {
+      id: 'gpt-image-1.5',
+      description: 'OpenAI GPT Image with editing from a reference image',
+      capabilities: { referenceImages: 1, transparent: true, negativePrompt: false, seed: false, edit: true, mask: true },
+      parameters: GPT_IMAGE_PARAMETERS,
+      pricing: GPT_IMAGE_PRICING,
+    },
+  ],
+  create: () => new OpenAIProvider(),
+};
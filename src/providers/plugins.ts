@@ -0,0 +1,75 @@
+import { existsSync, readdirSync } from 'fs';
+import { extname, isAbsolute, join } from 'path';
+import { pathToFileURL } from 'url';
+import type { ProviderPlugin } from '../types';
+import { configDir, configPluginSpecs } from '../utils/config';
+import { registerProvider } from './index';
+
+const PLUGIN_EXTENSIONS = ['.ts', '.js', '.mjs'];
+
+/**
+ * Directory whose modules are loaded as provider plugins on startup
+ */
+export function pluginDir(): string {
+  return process.env.IMG_GEN_PLUGINS_DIR || join(configDir(), 'plugins');
+}
+
+function pluginFiles(): string[] {
+  const dir = pluginDir();
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter((file) => PLUGIN_EXTENSIONS.includes(extname(file)))
+    .sort()
+    .map((file) => join(dir, file));
+}
+
+/**
+ * Import a plugin from a file path, or an npm package resolved from cwd first
+ * (so project dependencies work) and then from the CLI's own install
+ */
+async function importPlugin(spec: string, cwd: string): Promise<Record<string, unknown>> {
+  if (isAbsolute(spec)) return import(pathToFileURL(spec).href);
+
+  let resolved = spec;
+  try {
+    resolved = Bun.resolveSync(spec, cwd);
+  } catch {
+    // Fall back to resolving relative to this CLI
+  }
+  return import(resolved);
+}
+
+/**
+ * Register providers from the plugins directory and the config "plugins" list (project
+ * config files only with IMG_GEN_PROJECT_PLUGINS=1).
+ * A module's default export (or its `plugin` export) may be one ProviderPlugin or
+ * an array of them. Returns warnings for plugins that failed to load.
+ */
+export async function loadPlugins(cwd: string = process.cwd()): Promise<string[]> {
+  const warnings: string[] = [];
+  const sources = pluginFiles();
+
+  try {
+    const { specs, skipped } = await configPluginSpecs(cwd);
+    sources.push(...specs);
+    for (const path of skipped) {
+      warnings.push(`Not loading the provider plugins listed in ${path}; set IMG_GEN_PROJECT_PLUGINS=1 to trust this project's plugins`);
+    }
+  } catch {
+    // Commands report config errors themselves when they load the full config
+  }
+
+  for (const source of sources) {
+    try {
+      const module = await importPlugin(source, cwd);
+      const exported = (module.default ?? module.plugin) as ProviderPlugin | ProviderPlugin[];
+      for (const plugin of Array.isArray(exported) ? exported : [exported]) {
+        registerProvider(plugin, source);
+      }
+    } catch (error) {
+      warnings.push(`Could not load provider plugin ${source}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  return warnings;
+}
@@ -1,8 +1,11 @@
 import Replicate from 'replicate';
-import { BaseProvider } from './base';
-import type { GenerateOptions, GenerationResult, Model, AspectRatio } from '../types';
-import { ASPECT_RATIO_TO_DIMENSIONS, DEFAULT_OPTIONS } from '../types';
+import { BaseProvider, imagePlaceholder } from './base';
+import type { ImageEncoder } from './base';
+import { classifyError, failure } from './errors';
+import type { GenerateOptions, GenerationResult, ModelCapabilities, ProviderPlugin, ProviderRequest } from '../types';
+import { ALL_ASPECT_RATIOS, DEFAULT_OPTIONS } from '../types';
 import { readImageAsBase64, getMimeType } from '../utils/download';
+import { readMask } from '../utils/mask';
 
 const FLUX_MODELS = {
   'flux': 'black-forest-labs/flux-1.1-pro',
@@ -10,100 +13,200 @@ const FLUX_MODELS = {
   'flux-pro': 'black-forest-labs/flux-pro',
 } as const;
 
+// Masked edits (inpainting) go to the Fill model whichever FLUX model was chosen
+const FLUX_FILL_MODEL = 'black-forest-labs/flux-fill-pro';
+
+// How much img2img may change the source when --strength isn't given
+const DEFAULT_PROMPT_STRENGTH = 0.8;
+
+/**
+ * URL of one item of model output: a string, or a FileOutput with url()
+ */
+export function outputUrl(item: unknown): string | undefined {
+  if (typeof item === 'string') return item;
+  if (item && typeof (item as { url?: unknown }).url === 'function') {
+    return String((item as { url(): URL }).url());
+  }
+  return undefined;
+}
+
 export class ReplicateProvider extends BaseProvider {
   name = 'Replicate';
-  models: Model[] = ['flux', 'flux-schnell', 'flux-pro'];
 
-  private client: Replicate;
+  private client: Replicate | null = null;
 
   constructor() {
     super();
     const apiKey = process.env.REPLICATE_API_TOKEN;
-    if (!apiKey) {
-      throw new Error('REPLICATE_API_TOKEN environment variable is required');
+    if (apiKey) {
+      this.client = new Replicate({ auth: apiKey });
     }
-    this.client = new Replicate({ auth: apiKey });
   }
 
-  async generate(options: GenerateOptions): Promise<GenerationResult> {
-    const startTime = Date.now();
-    const model = options.model as keyof typeof FLUX_MODELS;
-    const modelId = FLUX_MODELS[model];
+  private modelId(options: GenerateOptions): string | undefined {
+    if (options.editImage && options.mask) return FLUX_FILL_MODEL;
+    return FLUX_MODELS[options.model as keyof typeof FLUX_MODELS];
+  }
 
-    if (!modelId) {
+  /**
+   * Replicate model input for the options; encode turns an image into a data URL and
+   * encodeMask does the same for the inpainting mask
+   */
+  private async buildInput(
+    options: GenerateOptions,
+    encode: ImageEncoder,
+    encodeMask: ImageEncoder
+  ): Promise<Record<string, unknown>> {
+    const aspectRatio = options.aspectRatio || DEFAULT_OPTIONS.aspectRatio;
+
+    // Inpainting: the Fill model keeps the source's shape and takes no strength
+    if (options.editImage && options.mask) {
       return {
-        success: false,
-        error: `Unknown Replicate model: ${options.model}`,
+        prompt: options.prompt,
+        image: await encode(options.editImage),
+        mask: await encodeMask(options.mask),
+        output_format: 'png',
+        ...(options.seed !== undefined && { seed: options.seed }),
+        ...(options.steps && { steps: options.steps }),
+        ...(options.guidance && { guidance: options.guidance }),
       };
     }
 
-    try {
-      const aspectRatio = options.aspectRatio || DEFAULT_OPTIONS.aspectRatio;
-      const dimensions = ASPECT_RATIO_TO_DIMENSIONS[aspectRatio as AspectRatio];
+    const input: Record<string, unknown> = {
+      prompt: options.prompt,
+      aspect_ratio: aspectRatio,
+      output_format: 'png',
+      output_quality: 100,
+    };
 
-      const input: Record<string, unknown> = {
-        prompt: options.prompt,
-        aspect_ratio: aspectRatio,
-        output_format: 'png',
-        output_quality: 100,
-      };
+    // Add optional parameters
+    if (options.negativePrompt) {
+      input.negative_prompt = options.negativePrompt;
+    }
 
-      // Add optional parameters
-      if (options.negativePrompt) {
-        input.negative_prompt = options.negativePrompt;
-      }
+    if (options.seed !== undefined) {
+      input.seed = options.seed;
+    }
 
-      if (options.seed !== undefined) {
-        input.seed = options.seed;
-      }
+    if (options.steps) {
+      input.num_inference_steps = options.steps;
+    }
 
-      if (options.steps) {
-        input.num_inference_steps = options.steps;
-      }
+    if (options.guidance) {
+      input.guidance_scale = options.guidance;
+    }
 
-      if (options.guidance) {
-        input.guidance_scale = options.guidance;
-      }
+    if (options.numImages && options.numImages > 1) {
+      input.num_outputs = options.numImages;
+    }
 
-      // Handle reference image (image-to-image) - Flux only supports single image
-      if (options.referenceImages?.length) {
-        const refImage = options.referenceImages[0];
-        const base64 = await readImageAsBase64(refImage);
-        const mimeType = getMimeType(refImage);
-        input.image = `data:${mimeType};base64,${base64}`;
-        input.prompt_strength = 0.8; // Default strength for img2img
-      }
+    // Image-to-image from the edited image, or else the reference - Flux only supports single image
+    const source = options.editImage ?? options.referenceImages?.[0];
+    if (source) {
+      input.image = await encode(source);
+      input.prompt_strength = options.strength ?? DEFAULT_PROMPT_STRENGTH;
+    }
+
+    return input;
+  }
+
+  async describeRequest(options: GenerateOptions): Promise<ProviderRequest> {
+    return {
+      endpoint: `replicate.run ${this.modelId(options)}`,
+      payload: await this.buildInput(options, imagePlaceholder, imagePlaceholder),
+    };
+  }
+
+  protected async generateOnce(options: GenerateOptions): Promise<GenerationResult> {
+    const startTime = Date.now();
+    const modelId = this.modelId(options);
+
+    if (!modelId) {
+      return failure('invalid_params', `Unknown Replicate model: ${options.model}`);
+    }
+
+    if (!this.client) {
+      return failure('auth_missing', 'REPLICATE_API_TOKEN environment variable is required');
+    }
+
+    try {
+      const input = await this.buildInput(
+        options,
+        async (path) => `data:${getMimeType(path)};base64,${await readImageAsBase64(path)}`,
+        async (path) => `data:image/png;base64,${(await readMask(path, options.editImage!)).toString('base64')}`
+      );
 
       const output = await this.client.run(modelId as `${string}/${string}`, { input });
 
-      // Flux models return a URL or array of URLs
-      const imageUrl = Array.isArray(output) ? output[0] : output;
+      // Flux models return one output or an array (one per num_outputs); each is a
+      // FileOutput, or a plain URL string from older clients
+      const imageUrls = (Array.isArray(output) ? output : [output]).map(outputUrl);
 
-      if (typeof imageUrl !== 'string') {
-        return {
-          success: false,
-          error: 'Unexpected response format from Replicate',
-        };
+      if (!imageUrls.length || imageUrls.some((url) => url === undefined)) {
+        return failure('provider_unavailable', 'Unexpected response format from Replicate');
       }
 
-      const outputPath = options.output || DEFAULT_OPTIONS.output;
-      await this.saveImage(imageUrl, outputPath);
+      const outputPaths = this.outputPaths(options, imageUrls.length);
+      await Promise.all(imageUrls.map((url, i) => this.saveImage(url!, outputPaths[i])));
 
       return {
         success: true,
-        outputPath,
+        outputPath: outputPaths[0],
+        outputPaths,
         metadata: {
           model: options.model,
+          providerModel: modelId,
           prompt: options.prompt,
           seed: options.seed,
           duration: Date.now() - startTime,
         },
       };
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error occurred',
-      };
+      return failure(classifyError(error), error instanceof Error ? error.message : 'Unknown error occurred');
     }
   }
 }
+
+const FLUX_CAPABILITIES: ModelCapabilities = {
+  referenceImages: 1,
+  transparent: false,
+  negativePrompt: true,
+  seed: true,
+  edit: true,
+  mask: true,
+  strength: true,
+};
+
+export const replicatePlugin: ProviderPlugin = {
+  name: 'replicate',
+  rateLimit: { concurrency: 4, requestsPerMinute: 60 },
+  models: [
+    {
+      id: 'flux',
+      description: 'FLUX 1.1 [pro] on Replicate',
+      capabilities: FLUX_CAPABILITIES,
+      parameters: { aspectRatios: ALL_ASPECT_RATIOS, maxImages: 1 },
+      pricing: { perImage: 0.04 },
+    },
+    {
+      id: 'flux-schnell',
+      description: 'FLUX.1 [schnell], fast and cheap drafts',
+      capabilities: FLUX_CAPABILITIES,
+      parameters: { aspectRatios: ALL_ASPECT_RATIOS, steps: { min: 1, max: 4 }, maxImages: 4 },
+      pricing: { perImage: 0.003 },
+    },
+    {
+      id: 'flux-pro',
+      description: 'FLUX.1 [pro] with step and guidance control',
+      capabilities: FLUX_CAPABILITIES,
+      parameters: {
+        aspectRatios: ALL_ASPECT_RATIOS,
+        steps: { min: 1, max: 50 },
+        guidance: { min: 2, max: 5 },
+        maxImages: 1,
+      },
+      pricing: { perImage: 0.055 },
+    },
+  ],
+  create: () => new ReplicateProvider(),
+};
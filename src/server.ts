@@ -0,0 +1,283 @@
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { isAbsolute, join, relative, resolve } from 'path';
+import { generateImage, generationFailure } from './pipeline';
+import { listModels } from './providers';
+import { checkOptions } from './providers/capabilities';
+import { RateLimiter } from './utils/concurrency';
+import { approveCost, costliestAttempt, estimateCost } from './utils/cost';
+import { validateOptionFields } from './utils/options';
+import { postStepInputs } from './utils/processors';
+import type { GenerateOptions, GenerationErrorKind } from './types';
+import { DEFAULT_OPTIONS } from './types';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  /** Latest pipeline step, e.g. "Removing background..." */
+  progress?: string;
+  model: string;
+  prompt: string;
+  usedModel?: string;
+  outputPath?: string;
+  /** Every image saved, when the request asked for more than one */
+  outputPaths?: string[];
+  error?: string;
+  errorKind?: GenerationErrorKind;
+  historyId?: string;
+}
+
+export interface ServerOptions {
+  port: number;
+  hostname: string;
+  token: string;
+  outDir: string;
+  /** Jobs running at once; the rest wait in the queue */
+  concurrency: number;
+  /** Config/profile defaults that requests override */
+  defaults: Partial<GenerateOptions>;
+  /** The only directory requests may read files from; without it they can't name files */
+  inputDir?: string;
+  /** Refuse requests estimated above this many USD */
+  maxCost?: number;
+}
+
+// Finished jobs kept for GET /jobs/:id before the oldest are forgotten
+const MAX_FINISHED_JOBS = 1000;
+
+/**
+ * In-memory job queue. Jobs run in the background with at most `concurrency` in
+ * flight, so requests return immediately even for slow models.
+ */
+export class JobQueue {
+  private jobs = new Map<string, Job>();
+  private finished: string[] = [];
+  private limiter: RateLimiter;
+
+  constructor(private readonly outDir: string, concurrency: number) {
+    this.limiter = new RateLimiter({ concurrency });
+  }
+
+  get(id: string): Job | undefined {
+    return this.jobs.get(id);
+  }
+
+  list(): Job[] {
+    return [...this.jobs.values()];
+  }
+
+  enqueue(options: GenerateOptions): Job {
+    const job: Job = {
+      id: randomUUID().replace(/-/g, '').slice(0, 12),
+      status: 'queued',
+      createdAt: new Date().toISOString(),
+      model: options.model,
+      prompt: options.prompt,
+    };
+    this.jobs.set(job.id, job);
+
+    // Not awaited: the caller polls GET /jobs/:id
+    this.limiter.run(() => this.run(job, { ...options, output: join(this.outDir, `${job.id}.png`) }));
+    return job;
+  }
+
+  private async run(job: Job, options: GenerateOptions): Promise<void> {
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+
+    try {
+      const result = await generateImage(options, (message) => {
+        job.progress = message;
+      });
+      job.status = result.success ? 'succeeded' : 'failed';
+      job.outputPath = result.outputPath;
+      job.outputPaths = result.outputPaths;
+      job.usedModel = result.metadata?.model;
+      job.historyId = result.metadata?.historyId;
+      job.error = result.error;
+      job.errorKind = result.errorKind;
+    } catch (error) {
+      const { error: message, errorKind } = generationFailure(error);
+      job.status = 'failed';
+      job.error = message;
+      job.errorKind = errorKind;
+    }
+
+    job.finishedAt = new Date().toISOString();
+    job.progress = undefined;
+    this.finished.push(job.id);
+    while (this.finished.length > MAX_FINISHED_JOBS) {
+      this.jobs.delete(this.finished.shift()!);
+    }
+  }
+}
+
+function json(body: unknown, status = 200): Response {
+  return Response.json(body, { status });
+}
+
+function errorResponse(status: number, message: string, details?: string[]): Response {
+  return json({ error: message, ...(details && { details }) }, status);
+}
+
+/**
+ * Job as returned by the API; images are fetched from imageUrl (and imageUrls when there
+ * are several) rather than a local path
+ */
+function jobView(job: Job): Record<string, unknown> {
+  const { outputPath, outputPaths, ...view } = job;
+  const succeeded = job.status === 'succeeded';
+  return {
+    ...view,
+    imageUrl: succeeded ? `/images/${job.id}` : undefined,
+    imageUrls: succeeded && outputPaths && outputPaths.length > 1
+      ? outputPaths.map((_, i) => `/images/${job.id}/${i + 1}`)
+      : undefined,
+  };
+}
+
+function authorized(request: Request, token: string): boolean {
+  const header = request.headers.get('authorization') ?? '';
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(header);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Check that the files a request names (reference images, composite backgrounds) are
+ * inside inputDir, so clients can't have the server read anything else
+ */
+function fileInputIssues(entry: Record<string, unknown>, inputDir: string | undefined): string[] {
+  const files: string[] = [];
+  if (Array.isArray(entry.referenceImages)) {
+    files.push(...entry.referenceImages.filter((ref): ref is string => typeof ref === 'string'));
+  }
+  if (typeof entry.post === 'string') {
+    files.push(...postStepInputs(entry.post));
+  } else if (Array.isArray(entry.post)) {
+    files.push(...postStepInputs(entry.post.filter((step): step is string => typeof step === 'string')));
+  }
+
+  return files
+    .filter((file) => {
+      if (!inputDir) return true;
+      const path = relative(inputDir, resolve(file));
+      return !path || path.startsWith('..') || isAbsolute(path);
+    })
+    .map((file) => inputDir
+      ? `body: ${file} is outside the input directory ${inputDir}`
+      : `body: ${file}: this server does not read files (start it with --input-dir to allow some)`);
+}
+
+/**
+ * Validate a POST /generate body and merge it over the server defaults
+ */
+function parseGenerateBody(body: unknown, options: ServerOptions): GenerateOptions | string[] {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return ['body must be a JSON object of generation options'];
+  }
+
+  const entry = body as Record<string, unknown>;
+  // Checked first, so the errors below don't reveal which files exist elsewhere
+  const forbidden = fileInputIssues(entry, options.inputDir);
+  if (forbidden.length) return forbidden;
+
+  const issues = validateOptionFields(entry, 'body', process.cwd(), ['prompt']);
+  if (typeof entry.prompt !== 'string' || !entry.prompt.trim()) {
+    issues.push('body: "prompt" is required');
+  }
+  if ('output' in entry) {
+    issues.push('body: "output" is chosen by the server; fetch the image from GET /images/:id');
+  }
+  if (issues.length) return issues;
+
+  const { model, aspectRatio, quality, style, numImages } = DEFAULT_OPTIONS;
+  const requested = { ...options.defaults, ...(entry as Partial<GenerateOptions>) };
+
+  // Options the model ignores are dropped during generation; values it can't take are refused
+  const generateOptions = { model, aspectRatio, quality, style, numImages, ...requested } as GenerateOptions;
+  const errors = checkOptions(generateOptions, new Set(Object.keys(requested) as Array<keyof GenerateOptions>)).issues
+    .filter((issue) => issue.severity === 'error')
+    .map((issue) => `body: ${issue.message}`);
+  return errors.length ? errors : generateOptions;
+}
+
+async function handle(request: Request, queue: JobQueue, options: ServerOptions): Promise<Response> {
+  const { pathname } = new URL(request.url);
+
+  if (!authorized(request, options.token)) {
+    return new Response(JSON.stringify({ error: 'Missing or invalid bearer token' }), {
+      status: 401,
+      headers: { 'content-type': 'application/json', 'www-authenticate': 'Bearer' },
+    });
+  }
+
+  if (pathname === '/models' && request.method === 'GET') {
+    return json({ models: listModels() });
+  }
+
+  if (pathname === '/generate' && request.method === 'POST') {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse(400, 'Request body is not valid JSON');
+    }
+
+    const parsed = parseGenerateBody(body, options);
+    if (Array.isArray(parsed)) {
+      return errorResponse(400, 'Invalid generation options', parsed);
+    }
+
+    // The same budget check as the CLI; there is no one to ask, so only the limit applies
+    try {
+      await approveCost(estimateCost([costliestAttempt(parsed)]), { maxCost: options.maxCost, interactive: false });
+    } catch (error) {
+      return errorResponse(402, error instanceof Error ? error.message : 'Over budget');
+    }
+    return json(jobView(queue.enqueue(parsed)), 202);
+  }
+
+  if (pathname === '/jobs' && request.method === 'GET') {
+    return json({ jobs: queue.list().map(jobView) });
+  }
+
+  // GET /images/:id/:n serves the nth image of a job that returned several
+  const match = pathname.match(/^\/(jobs|images)\/([\w-]+)$/) ?? pathname.match(/^\/(images)\/([\w-]+)\/(\d+)$/);
+  if (match && request.method === 'GET') {
+    const job = queue.get(match[2]);
+    if (!job) return errorResponse(404, `No job with id ${match[2]}`);
+    if (match[1] === 'jobs') return json(jobView(job));
+
+    if (job.status !== 'succeeded' || !job.outputPath) {
+      return errorResponse(job.status === 'failed' ? 404 : 409, `Job ${job.id} is ${job.status}`);
+    }
+    const index = match[3] ? Number(match[3]) : 1;
+    const imagePath = (job.outputPaths ?? [job.outputPath])[index - 1];
+    if (!imagePath) return errorResponse(404, `Job ${job.id} has no image ${index}`);
+    const file = Bun.file(imagePath);
+    if (!(await file.exists())) return errorResponse(410, `Image for job ${job.id} is no longer on disk`);
+    return new Response(file);
+  }
+
+  return errorResponse(404, `No route for ${request.method} ${pathname}`);
+}
+
+/**
+ * Serve the REST API: POST /generate, GET /jobs, GET /jobs/:id, GET /images/:id and
+ * GET /models. Every request needs "Authorization: Bearer <token>".
+ */
+export function startServer(options: ServerOptions) {
+  const queue = new JobQueue(options.outDir, options.concurrency);
+
+  return Bun.serve({
+    port: options.port,
+    hostname: options.hostname,
+    fetch: (request) => handle(request, queue, options),
+    error: (error) => errorResponse(500, error.message),
+  });
+}
@@ -1,23 +1,15 @@
-export type Provider = 'replicate' | 'openai' | 'google';
-
-export type Model =
-  | 'flux'
-  | 'flux-schnell'
-  | 'flux-pro'
-  | 'gpt-image-1'
-  | 'gpt-image-1.5'
-  | 'imagen-3'
-  | 'imagen-3-fast'
-  | 'imagen-4'
-  | 'nano-banana'
-  | 'nano-banana-pro';
+/** Name of a registered provider plugin, e.g. "replicate" */
+export type Provider = string;
+
+/** Model id declared by a provider plugin, e.g. "flux" */
+export type Model = string;
 
 export type AspectRatio =
   | '1:1' | '16:9' | '9:16'
   | '4:3' | '3:4' | '3:2' | '2:3'
   | '4:5' | '5:4' | '21:9';
 
-export type OpenAISize = '1024x1024' | '1024x1792' | '1792x1024' | '1536x1536' | '1024x1536' | '1536x1024';
+export type OpenAISize = '1024x1024' | '1536x1024' | '1024x1536';
 
 export type GoogleResolution = '1K' | '2K' | '4K';
 
@@ -28,11 +20,24 @@ export interface GenerateOptions {
   aspectRatio?: AspectRatio;
   output?: string;
   referenceImages?: string[];
+  /** Image to edit according to the prompt (generate edit) */
+  editImage?: string;
+  /** Inpainting mask for editImage: white or transparent pixels mark the area to change */
+  mask?: string;
+  /** How much an edit or img2img may change the source: 0 keeps it, 1 replaces it */
+  strength?: number;
   transparent?: boolean;
-  removeBg?: boolean;
+  /** Remove the background: true or 'auto', 'local' (offline, flat backgrounds) or 'removebg' */
+  removeBg?: boolean | string;
   addBg?: string;
   negativePrompt?: string;
   thumbnail?: number | boolean;
+  /** Enlarge each image by this factor after generation */
+  upscale?: number;
+  /** Upscaling backend: auto (default), replicate or local */
+  upscaler?: string;
+  /** Post-processing chain, e.g. "trim,pad:64,format:webp:85" or a list of steps (see --post) */
+  post?: string | string[];
   variations?: number;
   seed?: number;
   steps?: number;
@@ -41,38 +46,153 @@ export interface GenerateOptions {
   style?: 'vivid' | 'natural';
   numImages?: number;
   useApi?: boolean;
+  retries?: number;
+  fallback?: Model[];
+  embedMetadata?: boolean;
+  clobber?: boolean;
+}
+
+export type GenerationErrorKind =
+  | 'rate_limited'
+  | 'safety_blocked'
+  | 'auth_missing'
+  | 'invalid_params'
+  | 'transient_network'
+  | 'provider_unavailable'
+  /** The image was generated, but a post-processing step such as remove-bg failed */
+  | 'post_processing';
+
+/** Name of an applied post-processing step (see utils/processors), or 'metadata' */
+export type PostProcessingStep = string;
+
+export interface FallbackAttempt {
+  model: string;
+  errorKind?: GenerationErrorKind;
+  error?: string;
 }
 
 export interface GenerationResult {
   success: boolean;
+  /** The first image saved */
   outputPath?: string;
+  /** Every image saved, in order, when the request returned several (see numImages) */
+  outputPaths?: string[];
   error?: string;
+  errorKind?: GenerationErrorKind;
+  thumbnailPath?: string;
+  thumbnailPaths?: string[];
+  /** Post-processing steps applied after generation, in order */
+  postProcessing?: PostProcessingStep[];
   metadata?: {
     model: string;
     prompt: string;
+    providerModel?: string;
     seed?: number;
     duration?: number;
+    attempts?: number;
+    historyId?: string;
+    requestedModel?: string;
+    fallbacks?: FallbackAttempt[];
   };
 }
 
+export interface RateLimit {
+  concurrency: number;
+  requestsPerMinute?: number;
+}
+
+/**
+ * What a provider would send for a generation, as shown by --dry-run.
+ * Image data is replaced by a placeholder naming the file.
+ */
+export interface ProviderRequest {
+  /** API endpoint, SDK call or command the request goes to */
+  endpoint: string;
+  payload: Record<string, unknown>;
+}
+
 export interface ImageProvider {
   name: string;
-  models: Model[];
   generate(options: GenerateOptions): Promise<GenerationResult>;
+  /** Build the request generate() would make, without calling the network */
+  describeRequest?(options: GenerateOptions): Promise<ProviderRequest>;
 }
 
-export const MODEL_TO_PROVIDER: Record<Model, Provider> = {
-  'flux': 'replicate',
-  'flux-schnell': 'replicate',
-  'flux-pro': 'replicate',
-  'gpt-image-1': 'openai',
-  'gpt-image-1.5': 'openai',
-  'imagen-3': 'google',
-  'imagen-3-fast': 'google',
-  'imagen-4': 'google',
-  'nano-banana': 'google',
-  'nano-banana-pro': 'google',
-};
+export interface NumberRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Features a model honors. Options for a feature the model lacks are not sent.
+ */
+export interface ModelCapabilities {
+  /** Most reference images the model can use; 0 when it takes none */
+  referenceImages: number;
+  transparent: boolean;
+  negativePrompt: boolean;
+  seed: boolean;
+  /** Edits an existing image from an instruction (generate edit) */
+  edit?: boolean;
+  /** Limits an edit to the area of a --mask */
+  mask?: boolean;
+  /** Honors --strength for edits and reference images */
+  strength?: boolean;
+}
+
+/**
+ * The generation options a model accepts and their valid values.
+ * An omitted entry means the model has no such setting.
+ */
+export interface ModelParameters {
+  aspectRatios: AspectRatio[];
+  sizes?: string[];
+  steps?: NumberRange;
+  guidance?: NumberRange;
+  quality?: Array<'standard' | 'hd'>;
+  style?: Array<'vivid' | 'natural'>;
+  /** Most images one request can return */
+  maxImages: number;
+  /** Why maxImages is what it is, shown when more are asked for */
+  maxImagesReason?: string;
+}
+
+/**
+ * Estimated price of one image in USD, overridable with [pricing] in config
+ */
+export interface ModelPricing {
+  perImage: number;
+  /** Price per image for a --quality value, in place of perImage */
+  quality?: Partial<Record<'standard' | 'hd', number>>;
+  /** Multiplier for a --size, or for the aspect ratio when no size is given (e.g. { '4K': 2 }) */
+  multipliers?: Record<string, number>;
+}
+
+export interface ModelDefinition {
+  id: Model;
+  description?: string;
+  capabilities: ModelCapabilities;
+  parameters: ModelParameters;
+  /** Omitted when the cost is unknown; estimates then leave the model out */
+  pricing?: ModelPricing;
+}
+
+/**
+ * A provider and the models it serves. Built-in providers and plugins loaded from
+ * the plugins directory or npm packages all register through this interface.
+ */
+export interface ProviderPlugin {
+  name: Provider;
+  models: ModelDefinition[];
+  /** Default concurrency and requests per minute (overridable with --provider-limit) */
+  rateLimit?: RateLimit;
+  /** Provider-specific GenerateOptions fields (e.g. useApi), dropped when falling back elsewhere */
+  providerOptions?: Array<keyof GenerateOptions>;
+  /** Called once, on first use */
+  create(): ImageProvider;
+}
+
+export const DEFAULT_RATE_LIMIT: RateLimit = { concurrency: 2 };
 
 export const ASPECT_RATIO_TO_DIMENSIONS: Record<AspectRatio, { width: number; height: number }> = {
   '1:1': { width: 1024, height: 1024 },
@@ -87,6 +207,8 @@ export const ASPECT_RATIO_TO_DIMENSIONS: Record<AspectRatio, { width: number; he
   '21:9': { width: 1536, height: 640 },
 };
 
+export const ALL_ASPECT_RATIOS = Object.keys(ASPECT_RATIO_TO_DIMENSIONS) as AspectRatio[];
+
 export const DEFAULT_OPTIONS = {
   model: 'nano-banana-pro' as Model,
   aspectRatio: '16:9' as AspectRatio,
@@ -94,6 +216,9 @@ export const DEFAULT_OPTIONS = {
   quality: 'standard' as const,
   style: 'vivid' as const,
   numImages: 1,
-  steps: 28,
-  guidance: 3.5,
+  concurrency: 4,
+  retries: 3,
 };
+
+export const RETRY_BASE_DELAY_MS = 1000;
+export const RETRY_MAX_DELAY_MS = 30_000;
@@ -1,13 +1,74 @@
 import sharp from 'sharp';
+import { extname } from 'path';
+
+export const BACKGROUND_REMOVERS = ['auto', 'local', 'removebg'] as const;
+
+/**
+ * How to remove backgrounds: remove.bg's API, or the local flood fill (makeTransparent),
+ * which needs no key or network but only handles flat backgrounds. auto picks remove.bg
+ * when REMOVE_BG_API_KEY is set.
+ */
+export type BackgroundRemover = (typeof BACKGROUND_REMOVERS)[number];
+
+/**
+ * The backend for a removeBg option value: true (a bare --remove-bg) means auto
+ */
+export function resolveBackgroundRemover(value: boolean | string = 'auto'): 'local' | 'removebg' {
+  const backend = value === true ? 'auto' : value;
+  if (backend === 'local' || backend === 'removebg') return backend;
+  if (backend === 'auto') return process.env.REMOVE_BG_API_KEY ? 'removebg' : 'local';
+  throw new Error(`Unknown background remover "${value}". Available: ${BACKGROUND_REMOVERS.join(', ')}`);
+}
+
+/**
+ * Parse a --remove-bg=<backend> value
+ */
+export function parseBackgroundRemover(value: string): BackgroundRemover {
+  if (!(BACKGROUND_REMOVERS as readonly string[]).includes(value)) {
+    throw new Error(`Background remover must be one of ${BACKGROUND_REMOVERS.join(', ')}`);
+  }
+  return value as BackgroundRemover;
+}
+
+/**
+ * Where an image with a transparent background can be written: outputPath if its format
+ * holds transparency (PNG or WebP), else the same name with a .png extension
+ */
+export function transparentOutputPath(outputPath: string): string {
+  const ext = extname(outputPath);
+  return ['.png', '.webp'].includes(ext.toLowerCase()) ? outputPath : outputPath.slice(0, outputPath.length - ext.length) + '.png';
+}
+
+/**
+ * Encode a transparent image to match the extension of outputPath
+ */
+async function writeTransparent(image: sharp.Sharp, outputPath: string): Promise<void> {
+  await (extname(outputPath).toLowerCase() === '.webp' ? image.webp({ quality: 90 }) : image.png()).toFile(outputPath);
+}
+
+/**
+ * Remove the background with the given backend (see resolveBackgroundRemover). Returns
+ * the path written, which is outputPath as a .png when its format can't hold
+ * transparency (see transparentOutputPath).
+ */
+export async function removeBackground(
+  inputPath: string,
+  outputPath: string,
+  backend: boolean | string = 'auto'
+): Promise<string> {
+  return resolveBackgroundRemover(backend) === 'local'
+    ? makeTransparent(inputPath, outputPath)
+    : removeBackgroundApi(inputPath, outputPath);
+}
 
 /**
  * Remove background using remove.bg API
  */
-export async function removeBackground(inputPath: string, outputPath: string): Promise<string> {
+async function removeBackgroundApi(inputPath: string, outputPath: string): Promise<string> {
   const apiKey = process.env.REMOVE_BG_API_KEY;
 
   if (!apiKey) {
-    throw new Error('REMOVE_BG_API_KEY environment variable is required for background removal');
+    throw new Error('REMOVE_BG_API_KEY environment variable is required for remove.bg (or use --remove-bg=local)');
   }
 
   const file = Bun.file(inputPath);
@@ -30,10 +91,10 @@ export async function removeBackground(inputPath: string, outputPath: string): P
     throw new Error(`remove.bg API error: ${error}`);
   }
 
-  const resultBuffer = await response.arrayBuffer();
-  await Bun.write(outputPath, resultBuffer);
-
-  return outputPath;
+  // remove.bg returns a PNG
+  const target = transparentOutputPath(outputPath);
+  await writeTransparent(sharp(await response.arrayBuffer()), target);
+  return target;
 }
 
 /**
@@ -46,34 +107,121 @@ export async function addBackgroundColor(inputPath: string, outputPath: string,
   const g = parseInt(hex.substring(2, 4), 16);
   const b = parseInt(hex.substring(4, 6), 16);
 
-  await sharp(inputPath)
+  // Read into memory first so the output may replace the input
+  await sharp(await Bun.file(inputPath).arrayBuffer())
     .flatten({ background: { r, g, b } })
     .toFile(outputPath);
 
   return outputPath;
 }
 
+// Color distance (RGB, 0-441) within which a pixel counts as background
+const DEFAULT_TOLERANCE = 40;
+
+// Share of edge pixels that must match the background color for it to count as flat
+const MIN_FLAT_EDGE = 0.6;
+
 /**
- * Make image background transparent (simple color-based removal)
+ * Make a flat background transparent, without any network calls. The background color
+ * is the most common color along the edges; pixels of that color connected to an edge
+ * are removed, so the same color inside the subject is kept. Pixels bordering the
+ * background get partial alpha by how close they are to its color, to soften the cut.
+ * Throws if the edges are not mostly one color. Returns the path written, as for
+ * removeBackground.
  */
-export async function makeTransparent(inputPath: string, outputPath: string): Promise<string> {
-  await sharp(inputPath)
-    .ensureAlpha()
-    .toFile(outputPath);
+export async function makeTransparent(
+  inputPath: string,
+  outputPath: string,
+  tolerance = DEFAULT_TOLERANCE
+): Promise<string> {
+  const { data, info } = await sharp(inputPath).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+  const pixels = width * height;
 
-  return outputPath;
+  const edge: number[] = [];
+  for (let x = 0; x < width; x++) edge.push(x, (height - 1) * width + x);
+  for (let y = 1; y < height - 1; y++) edge.push(y * width, y * width + width - 1);
+
+  // Most common edge color, bucketed so noise and gradients in a flat fill still agree
+  const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+  for (const i of edge) {
+    const [r, g, b] = [data[i * 4], data[i * 4 + 1], data[i * 4 + 2]];
+    const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+    const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+    bucket.count++;
+    bucket.r += r;
+    bucket.g += g;
+    bucket.b += b;
+    buckets.set(key, bucket);
+  }
+  const top = [...buckets.values()].reduce((best, bucket) => (bucket.count > best.count ? bucket : best));
+  const background = [top.r / top.count, top.g / top.count, top.b / top.count];
+
+  const distance = (i: number) => Math.hypot(
+    data[i * 4] - background[0],
+    data[i * 4 + 1] - background[1],
+    data[i * 4 + 2] - background[2]
+  );
+
+  const flatEdge = edge.filter((i) => distance(i) <= tolerance).length / edge.length;
+  if (flatEdge < MIN_FLAT_EDGE) {
+    throw new Error('The background is not a flat color; local removal only handles flat backgrounds (try --remove-bg=removebg)');
+  }
+
+  // Flood fill from matching edge pixels
+  const isBackground = new Uint8Array(pixels);
+  const queue = new Uint32Array(pixels);
+  let head = 0;
+  let tail = 0;
+  for (const i of edge) {
+    if (!isBackground[i] && distance(i) <= tolerance) {
+      isBackground[i] = 1;
+      queue[tail++] = i;
+    }
+  }
+  while (head < tail) {
+    const i = queue[head++];
+    const x = i % width;
+    for (const n of [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, i - width, i + width]) {
+      if (n >= 0 && n < pixels && !isBackground[n] && distance(n) <= tolerance) {
+        isBackground[n] = 1;
+        queue[tail++] = n;
+      }
+    }
+  }
+
+  for (let i = 0; i < pixels; i++) {
+    if (isBackground[i]) {
+      data[i * 4 + 3] = 0;
+      continue;
+    }
+    const x = i % width;
+    const bordersBackground =
+      (x > 0 && isBackground[i - 1]) || (x < width - 1 && isBackground[i + 1]) ||
+      (i >= width && isBackground[i - width]) || (i + width < pixels && isBackground[i + width]);
+    if (bordersBackground) {
+      const alpha = Math.min(1, (distance(i) - tolerance) / tolerance);
+      data[i * 4 + 3] = Math.round(data[i * 4 + 3] * Math.max(0, alpha));
+    }
+  }
+
+  const target = transparentOutputPath(outputPath);
+  await writeTransparent(sharp(data, { raw: { width, height, channels: 4 } }), target);
+  return target;
 }
 
 /**
- * Composite image onto a background image
+ * Composite image onto a background image, which is scaled and cropped to cover the
+ * foreground's size
  */
 export async function compositeOnBackground(
   foregroundPath: string,
   backgroundPath: string,
   outputPath: string
 ): Promise<string> {
-  const background = sharp(backgroundPath);
-  const foreground = await sharp(foregroundPath).toBuffer();
+  const foreground = Buffer.from(await Bun.file(foregroundPath).arrayBuffer());
+  const { width, height } = await sharp(foreground).metadata();
+  const background = sharp(backgroundPath).resize(width, height, { fit: 'cover' });
 
   await background
     .composite([{ input: foreground, gravity: 'center' }])
@@ -91,7 +239,7 @@ export async function resizeImage(
   width?: number,
   height?: number
 ): Promise<string> {
-  await sharp(inputPath)
+  await sharp(await Bun.file(inputPath).arrayBuffer())
     .resize(width, height, { fit: 'inside', withoutEnlargement: true })
     .toFile(outputPath);
 
@@ -99,21 +247,23 @@ export async function resizeImage(
 }
 
 /**
- * Convert image format
+ * Convert image format. quality (1-100) applies to JPEG and WebP.
  */
 export async function convertFormat(
   inputPath: string,
   outputPath: string,
-  format: 'png' | 'jpg' | 'webp'
+  format: 'png' | 'jpg' | 'webp',
+  quality = 90
 ): Promise<string> {
-  let pipeline = sharp(inputPath);
+  let pipeline = sharp(await Bun.file(inputPath).arrayBuffer());
 
   switch (format) {
     case 'jpg':
-      pipeline = pipeline.jpeg({ quality: 90 });
+      // JPEG has no alpha; flatten onto white rather than black
+      pipeline = pipeline.flatten({ background: '#ffffff' }).jpeg({ quality });
       break;
     case 'webp':
-      pipeline = pipeline.webp({ quality: 90 });
+      pipeline = pipeline.webp({ quality });
       break;
     case 'png':
     default:
@@ -0,0 +1,40 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import sharp from 'sharp';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { layoutCanvas, stitchExtension } from './canvas';
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'img-gen-test-'));
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('layoutCanvas', () => {
+  test('widens a square image to the 16:9 working shape around the anchor', () => {
+    const layout = layoutCanvas(900, 900, '16:9', 'left');
+    expect(layout.full).toEqual({ width: 1575, height: 900, image: { left: 0, top: 0, width: 900, height: 900 } });
+    expect(layout.working.image.left).toBe(0);
+  });
+});
+
+describe('stitchExtension', () => {
+  test('encodes the stitched image to match the output extension', async () => {
+    const source = join(dir, 'source.png');
+    const generated = join(dir, 'generated.png');
+    await sharp({ create: { width: 30, height: 30, channels: 3, background: '#336699' } }).png().toFile(source);
+    await sharp({ create: { width: 64, height: 36, channels: 3, background: '#996633' } }).png().toFile(generated);
+    const layout = layoutCanvas(30, 30, '16:9', 'center');
+
+    for (const [ext, format] of [['jpg', 'jpeg'], ['webp', 'webp'], ['png', 'png']]) {
+      const output = join(dir, `banner.${ext}`);
+      await stitchExtension(generated, source, layout, output);
+      expect(await sharp(output).metadata()).toMatchObject({ format, width: layout.full.width, height: layout.full.height });
+    }
+  });
+});
@@ -0,0 +1,122 @@
+import sharp from 'sharp';
+import { extname } from 'path';
+import type { AspectRatio } from '../types';
+import { ALL_ASPECT_RATIOS, ASPECT_RATIO_TO_DIMENSIONS, DEFAULT_OPTIONS } from '../types';
+
+export const ANCHORS = [
+  'center', 'top', 'bottom', 'left', 'right', 'top-left', 'top-right', 'bottom-left', 'bottom-right',
+] as const;
+
+/** Where the original image sits on the extended canvas */
+export type Anchor = (typeof ANCHORS)[number];
+
+/**
+ * The aspect ratio closest to an image's own shape, so an edit keeps its proportions
+ */
+export async function sourceAspectRatio(path: string): Promise<AspectRatio> {
+  const { width, height } = await sharp(path).metadata();
+  if (!width || !height) return DEFAULT_OPTIONS.aspectRatio;
+  const distance = (ratio: AspectRatio) => {
+    const [w, h] = ratio.split(':').map(Number);
+    return Math.abs(Math.log(w / h) - Math.log(width / height));
+  };
+  return ALL_ASPECT_RATIOS.reduce((best, ratio) => (distance(ratio) < distance(best) ? ratio : best));
+}
+
+interface Rect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Geometry of an extension: the canvas at the source's own resolution, and the smaller
+ * canvas sent to the model. In both, `image` is where the original goes.
+ */
+export interface CanvasLayout {
+  full: { width: number; height: number; image: Rect };
+  working: { width: number; height: number; image: Rect };
+}
+
+function place(width: number, height: number, canvasWidth: number, canvasHeight: number, anchor: Anchor): Rect {
+  const spareX = canvasWidth - width;
+  const spareY = canvasHeight - height;
+  const left = anchor.includes('left') ? 0 : anchor.includes('right') ? spareX : Math.round(spareX / 2);
+  const top = anchor.includes('top') ? 0 : anchor.includes('bottom') ? spareY : Math.round(spareY / 2);
+  return { left, top, width, height };
+}
+
+/**
+ * Lay out an image of the given size on a canvas of the target aspect ratio. The full
+ * canvas keeps every source pixel; the working canvas has the dimensions the models
+ * use for that ratio (ASPECT_RATIO_TO_DIMENSIONS).
+ */
+export function layoutCanvas(width: number, height: number, to: AspectRatio, anchor: Anchor): CanvasLayout {
+  const target = ASPECT_RATIO_TO_DIMENSIONS[to];
+  const ratio = target.width / target.height;
+
+  // Grow whichever side is too short for the ratio
+  const fullWidth = width / height < ratio ? Math.round(height * ratio) : width;
+  const fullHeight = width / height < ratio ? height : Math.round(width / ratio);
+
+  const scale = target.width / fullWidth;
+  const scaledWidth = Math.min(target.width, Math.round(width * scale));
+  const scaledHeight = Math.min(target.height, Math.round(height * scale));
+
+  return {
+    full: { width: fullWidth, height: fullHeight, image: place(width, height, fullWidth, fullHeight, anchor) },
+    working: {
+      width: target.width,
+      height: target.height,
+      image: place(scaledWidth, scaledHeight, target.width, target.height, anchor),
+    },
+  };
+}
+
+/**
+ * Write the working canvas and its mask. The new area starts as mirrored edges of the
+ * image, which gives models more to continue from than a flat color, and is white in the
+ * mask; the original area is black, so it is kept.
+ */
+export async function prepareExtension(imagePath: string, layout: CanvasLayout, canvasPath: string, maskPath: string): Promise<void> {
+  const { width, height, image } = layout.working;
+
+  await sharp(imagePath)
+    .resize(image.width, image.height, { fit: 'fill' })
+    .extend({
+      left: image.left,
+      top: image.top,
+      right: width - image.left - image.width,
+      bottom: height - image.top - image.height,
+      extendWith: 'mirror',
+    })
+    .png()
+    .toFile(canvasPath);
+
+  await sharp({ create: { width, height, channels: 3, background: '#ffffff' } })
+    .composite([{
+      input: { create: { width: image.width, height: image.height, channels: 3, background: '#000000' } },
+      left: image.left,
+      top: image.top,
+    }])
+    .png()
+    .toFile(maskPath);
+}
+
+/**
+ * Scale a generated extension up to the full canvas and put the original image back
+ * over it, so the source keeps its exact pixels and resolution. Encoded as JPEG or WebP
+ * when outputPath has that extension, else PNG.
+ */
+export async function stitchExtension(generatedPath: string, imagePath: string, layout: CanvasLayout, outputPath: string): Promise<void> {
+  const { width, height, image } = layout.full;
+  const extended = await sharp(generatedPath).resize(width, height, { fit: 'fill' }).toBuffer();
+
+  const stitched = sharp(extended).composite([{ input: imagePath, left: image.left, top: image.top }]);
+  const ext = extname(outputPath).toLowerCase();
+  const encoded = ext === '.jpg' || ext === '.jpeg' ? stitched.jpeg({ quality: 90 })
+    : ext === '.webp' ? stitched.webp({ quality: 90 })
+    : stitched.png();
+  await encoded.toFile(outputPath);
+}
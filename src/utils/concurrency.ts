@@ -0,0 +1,94 @@
+import type { RateLimit } from '../types';
+
+const MINUTE = 60_000;
+
+/**
+ * Limits how many tasks run at once and, optionally, how many may start per minute
+ */
+export class RateLimiter {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private starts: number[] = [];
+
+  constructor(private readonly limit: RateLimit) {
+    if (limit.concurrency < 1) {
+      throw new Error('Concurrency must be at least 1');
+    }
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      await this.throttle();
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.limit.concurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      // Hand the slot straight to the next waiter
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  /**
+   * Wait until starting another task keeps us within requestsPerMinute
+   */
+  private async throttle(): Promise<void> {
+    const rpm = this.limit.requestsPerMinute;
+    if (!rpm) return;
+
+    for (;;) {
+      const now = Date.now();
+      this.starts = this.starts.filter((t) => now - t < MINUTE);
+      if (this.starts.length < rpm) {
+        this.starts.push(now);
+        return;
+      }
+      await Bun.sleep(this.starts[0] + MINUTE - now);
+    }
+  }
+}
+
+/**
+ * Map over items with at most `concurrency` tasks in flight, preserving input order in the result
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const limiter = new RateLimiter({ concurrency });
+  return Promise.all(items.map((item, index) => limiter.run(() => task(item, index))));
+}
+
+/**
+ * Parse a limit spec such as "4" or "2/30" (concurrency / requests per minute)
+ */
+export function parseRateLimit(spec: string): RateLimit {
+  const [concurrencyPart, rpmPart] = spec.split('/');
+  const concurrency = parseInt(concurrencyPart);
+  const requestsPerMinute = rpmPart !== undefined ? parseInt(rpmPart) : undefined;
+
+  if (isNaN(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid concurrency in "${spec}"`);
+  }
+  if (requestsPerMinute !== undefined && (isNaN(requestsPerMinute) || requestsPerMinute < 1)) {
+    throw new Error(`Invalid requests per minute in "${spec}"`);
+  }
+
+  return { concurrency, requestsPerMinute };
+}
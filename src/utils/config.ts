@@ -0,0 +1,293 @@
+import { existsSync } from 'fs';
+import { homedir } from 'os';
+import { basename, dirname, join, resolve } from 'path';
+import type { GenerateOptions, ModelPricing } from '../types';
+import { isKnownModel } from '../providers';
+import { resolvePath, validateOptionFields } from './options';
+
+/**
+ * Settings a config file (or one of its profiles) may provide
+ */
+export interface ConfigValues extends Partial<GenerateOptions> {
+  concurrency?: number;
+  providerLimits?: Record<string, string>;
+  /** Provider plugin modules: npm package names or paths to files */
+  plugins?: string[];
+  /** Per-model price overrides in USD */
+  pricing?: Record<string, ModelPricing>;
+  /** Refuse runs estimated above this many USD */
+  maxCost?: number;
+  /** Ask before runs estimated above this many USD */
+  confirmCost?: number;
+}
+
+export interface UserConfig {
+  values: ConfigValues;
+  profiles: Record<string, ConfigValues>;
+  files: string[];
+}
+
+const PROJECT_CONFIG_NAME = '.imggenrc';
+const CONFIG_ONLY_KEYS = ['concurrency', 'providerLimits', 'plugins', 'pricing', 'maxCost', 'confirmCost'] as const;
+
+export class ConfigError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid configuration:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+export function configDir(): string {
+  return join(process.env.XDG_CONFIG_HOME || join(homedir(), '.config'), 'img-gen');
+}
+
+export function globalConfigPath(): string {
+  return process.env.IMG_GEN_CONFIG || join(configDir(), 'config.toml');
+}
+
+/**
+ * Find the nearest .imggenrc in cwd or any parent directory
+ */
+export function findProjectConfig(cwd: string = process.cwd()): string | undefined {
+  let dir = resolve(cwd);
+  for (;;) {
+    const candidate = join(dir, PROJECT_CONFIG_NAME);
+    if (existsSync(candidate)) return candidate;
+    const parent = dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Config files use TOML-style kebab-case keys ("aspect-ratio"); options are camelCase
+ */
+function camelCase(key: string): string {
+  return key.replace(/[-_]([a-z])/g, (_, c: string) => c.toUpperCase());
+}
+
+function camelCaseKeys(table: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(table).map(([key, value]) => [camelCase(key), value]));
+}
+
+function isTable(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+async function parseConfigFile(path: string): Promise<Record<string, unknown>> {
+  const text = await Bun.file(path).text();
+  try {
+    // .imggenrc may be JSON or TOML; config.toml is always TOML
+    const parsed = basename(path) === PROJECT_CONFIG_NAME && text.trimStart().startsWith('{')
+      ? JSON.parse(text)
+      : Bun.TOML.parse(text);
+    if (!isTable(parsed)) throw new Error('expected a table of settings');
+    return parsed;
+  } catch (error) {
+    throw new ConfigError([`${path}: ${error instanceof Error ? error.message : 'could not parse'}`]);
+  }
+}
+
+/**
+ * Validate a "plugins" list. Entries that look like paths are resolved against the
+ * file's directory; anything else is an npm package name.
+ */
+function readPlugins(value: unknown, label: string, baseDir: string, issues: string[]): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some((spec) => typeof spec !== 'string')) {
+    issues.push(`${label}: "plugins" must be a list of package names or paths`);
+    return undefined;
+  }
+  return value.map((spec: string) => (/^[.~/]/.test(spec) ? resolvePath(spec, baseDir) : spec));
+}
+
+function isPrice(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0;
+}
+
+/**
+ * Validate a [pricing] table. Each model maps to a price per image, or to a table
+ * with per-image, quality and multipliers.
+ */
+function readPricing(value: unknown, label: string, issues: string[]): Record<string, ModelPricing> | undefined {
+  if (value === undefined) return undefined;
+  if (!isTable(value)) {
+    issues.push(`${label}: "pricing" must be a table of model = price`);
+    return undefined;
+  }
+
+  const pricing: Record<string, ModelPricing> = {};
+  for (const [model, entry] of Object.entries(value)) {
+    if (!isKnownModel(model)) {
+      issues.push(`${label}: pricing for unknown model "${model}"`);
+      continue;
+    }
+    if (isPrice(entry)) {
+      pricing[model] = { perImage: entry };
+      continue;
+    }
+
+    const table = isTable(entry) ? camelCaseKeys(entry) : {};
+    const { perImage, quality, multipliers } = table as Partial<ModelPricing>;
+    const prices = [quality, multipliers].every((part) => part === undefined || (isTable(part) && Object.values(part).every(isPrice)));
+    if (!isPrice(perImage) || !prices) {
+      issues.push(`${label}: pricing for "${model}" must be a price, or a table with per-image and optional quality and multipliers tables of numbers`);
+      continue;
+    }
+    pricing[model] = { perImage, quality, multipliers };
+  }
+  return pricing;
+}
+
+/**
+ * Validate one table of settings and resolve its paths against the file's directory
+ */
+function readValues(table: Record<string, unknown>, label: string, baseDir: string, issues: string[]): ConfigValues {
+  const values = camelCaseKeys(table) as ConfigValues & Record<string, unknown>;
+  issues.push(...validateOptionFields(values, label, baseDir, CONFIG_ONLY_KEYS));
+
+  if (values.concurrency !== undefined && typeof values.concurrency !== 'number') {
+    issues.push(`${label}: "concurrency" must be a number`);
+  }
+  if (values.providerLimits !== undefined && !isTable(values.providerLimits)) {
+    issues.push(`${label}: "provider-limits" must be a table of provider = "concurrency[/rpm]"`);
+  }
+
+  for (const key of ['maxCost', 'confirmCost'] as const) {
+    if (values[key] !== undefined && !isPrice(values[key])) {
+      issues.push(`${label}: "${key === 'maxCost' ? 'max-cost' : 'confirm-cost'}" must be an amount in USD`);
+    }
+  }
+
+  values.plugins = readPlugins(values.plugins, label, baseDir, issues);
+  values.pricing = readPricing(values.pricing, label, issues);
+
+  if (typeof values.output === 'string') values.output = resolvePath(values.output, baseDir);
+  if (Array.isArray(values.referenceImages)) {
+    values.referenceImages = values.referenceImages.map((ref) => resolvePath(ref, baseDir));
+  }
+  return values;
+}
+
+function mergeValues(base: ConfigValues, override: ConfigValues): ConfigValues {
+  return {
+    ...base,
+    ...override,
+    plugins: base.plugins || override.plugins
+      ? [...new Set([...(base.plugins ?? []), ...(override.plugins ?? [])])]
+      : undefined,
+    providerLimits: base.providerLimits || override.providerLimits
+      ? { ...base.providerLimits, ...override.providerLimits }
+      : undefined,
+    pricing: base.pricing || override.pricing
+      ? { ...base.pricing, ...override.pricing }
+      : undefined,
+  };
+}
+
+function configPaths(cwd: string): string[] {
+  return [globalConfigPath(), findProjectConfig(cwd)].filter(
+    (path): path is string => !!path && existsSync(path)
+  );
+}
+
+/**
+ * Provider plugins listed in the config files. Read on their own, before the rest
+ * of the config, because validating models needs the plugins registered first.
+ * A project .imggenrc comes with whatever repository the tool runs in, so its plugins
+ * are only loaded with IMG_GEN_PROJECT_PLUGINS=1; otherwise its path is in skipped.
+ */
+export async function configPluginSpecs(cwd: string = process.cwd()): Promise<{ specs: string[]; skipped: string[] }> {
+  const issues: string[] = [];
+  const specs: string[] = [];
+  const skipped: string[] = [];
+  const trustProject = process.env.IMG_GEN_PROJECT_PLUGINS === '1';
+
+  for (const path of configPaths(cwd)) {
+    const { plugins } = await parseConfigFile(path);
+    if (plugins === undefined) continue;
+    if (path !== globalConfigPath() && !trustProject) {
+      skipped.push(path);
+      continue;
+    }
+    specs.push(...(readPlugins(plugins, path, dirname(path), issues) ?? []));
+  }
+
+  if (issues.length) {
+    throw new ConfigError(issues);
+  }
+  return { specs: [...new Set(specs)], skipped };
+}
+
+/**
+ * Load the global config and the nearest project .imggenrc, project winning.
+ * Top-level keys are defaults; [profiles.<name>] tables are named bundles of settings.
+ */
+export async function loadConfig(cwd: string = process.cwd()): Promise<UserConfig> {
+  const config: UserConfig = { values: {}, profiles: {}, files: [] };
+  const issues: string[] = [];
+  for (const path of configPaths(cwd)) {
+    const { profiles = {}, ...defaults } = await parseConfigFile(path);
+    const baseDir = dirname(path);
+
+    config.values = mergeValues(config.values, readValues(defaults, path, baseDir, issues));
+
+    if (!isTable(profiles)) {
+      issues.push(`${path}: "profiles" must be a table of [profiles.<name>] sections`);
+      continue;
+    }
+    for (const [name, table] of Object.entries(profiles)) {
+      if (!isTable(table)) {
+        issues.push(`${path}: profile "${name}" must be a table`);
+        continue;
+      }
+      const values = readValues(table, `${path} [profiles.${name}]`, baseDir, issues);
+      config.profiles[name] = mergeValues(config.profiles[name] ?? {}, values);
+    }
+    config.files.push(path);
+  }
+
+  if (issues.length) {
+    throw new ConfigError(issues);
+  }
+  return config;
+}
+
+/**
+ * Config defaults with the named profile applied on top
+ */
+export function resolveConfig(config: UserConfig, profile?: string): ConfigValues {
+  if (!profile) return config.values;
+
+  const values = config.profiles[profile];
+  if (!values) {
+    const available = Object.keys(config.profiles);
+    throw new ConfigError([
+      `unknown profile "${profile}"${available.length ? `. Available profiles: ${available.join(', ')}` : ''}`,
+    ]);
+  }
+  return mergeValues(config.values, values);
+}
+
+/**
+ * Split resolved config into generation options and run settings
+ */
+export function splitConfig(values: ConfigValues): {
+  options: Partial<GenerateOptions>;
+  concurrency?: number;
+  providerLimits: string[];
+  pricing: Record<string, ModelPricing>;
+  maxCost?: number;
+  confirmCost?: number;
+} {
+  const { concurrency, providerLimits, plugins, pricing, maxCost, confirmCost, ...options } = values;
+  const defined = Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+  return {
+    options: defined,
+    concurrency,
+    providerLimits: Object.entries(providerLimits ?? {}).map(([provider, limit]) => `${provider}=${limit}`),
+    pricing: pricing ?? {},
+    maxCost,
+    confirmCost,
+  };
+}
@@ -0,0 +1,103 @@
+import sharp from 'sharp';
+import { mkdir } from 'fs/promises';
+import { dirname } from 'path';
+
+export interface SheetCell {
+  row: number;
+  column: number;
+  /** Generated image, or undefined when the cell failed */
+  path?: string;
+  error?: string;
+}
+
+interface SheetLayout {
+  cellSize: number;
+  gap: number;
+  headerHeight: number;
+  rowHeaderWidth: number;
+}
+
+const FONT = 'font-family="Helvetica, Arial, sans-serif" font-size="14"';
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function cellOrigin(layout: SheetLayout, row: number, column: number): { left: number; top: number } {
+  return {
+    left: layout.rowHeaderWidth + layout.gap + column * (layout.cellSize + layout.gap),
+    top: layout.headerHeight + layout.gap + row * (layout.cellSize + layout.gap),
+  };
+}
+
+async function renderTile(cell: SheetCell, size: number): Promise<Buffer> {
+  if (cell.path) {
+    try {
+      return await sharp(cell.path)
+        .resize(size, size, { fit: 'contain', background: '#f2f2f2' })
+        .png()
+        .toBuffer();
+    } catch {
+      // Unreadable output; draw it as a failed cell
+    }
+  }
+
+  const message = escapeXml((cell.error ?? 'failed').slice(0, 40));
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}">
+    <rect width="100%" height="100%" fill="#fbe9e9"/>
+    <text x="50%" y="50%" text-anchor="middle" ${FONT} fill="#b3261e">${message}</text>
+  </svg>`;
+  return sharp(Buffer.from(svg)).png().toBuffer();
+}
+
+/**
+ * Compose generated images into a labeled grid: column headers across the top,
+ * row headers down the left (omitted when there is a single unlabeled row)
+ */
+export async function composeContactSheet(
+  cells: SheetCell[],
+  labels: { rows: string[]; columns: string[] },
+  outputPath: string,
+  cellSize = 256
+): Promise<string> {
+  const hasRowHeaders = labels.rows.some(Boolean);
+  const longestRow = Math.max(...labels.rows.map((label) => label.length));
+  const layout: SheetLayout = {
+    cellSize,
+    gap: 8,
+    headerHeight: 32,
+    rowHeaderWidth: hasRowHeaders ? Math.max(120, longestRow * 9 + 24) : 0,
+  };
+
+  const width = layout.rowHeaderWidth + layout.gap + labels.columns.length * (cellSize + layout.gap);
+  const height = layout.headerHeight + layout.gap + labels.rows.length * (cellSize + layout.gap);
+
+  const headerText = [
+    ...labels.columns.map((label, column) => {
+      const { left } = cellOrigin(layout, 0, column);
+      return `<text x="${left + cellSize / 2}" y="${layout.headerHeight - 10}" text-anchor="middle" fill="#333333" ${FONT}>${escapeXml(label)}</text>`;
+    }),
+    ...(hasRowHeaders
+      ? labels.rows.map((label, row) => {
+          const { top } = cellOrigin(layout, row, 0);
+          return `<text x="${layout.rowHeaderWidth - 8}" y="${top + cellSize / 2}" text-anchor="end" fill="#333333" ${FONT}>${escapeXml(label)}</text>`;
+        })
+      : []),
+  ];
+  const headers = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${headerText.join('')}</svg>`;
+
+  const tiles = await Promise.all(
+    cells.map(async (cell) => ({
+      input: await renderTile(cell, cellSize),
+      ...cellOrigin(layout, cell.row, cell.column),
+    }))
+  );
+
+  await mkdir(dirname(outputPath), { recursive: true });
+  await sharp({ create: { width, height, channels: 3, background: '#ffffff' } })
+    .composite([{ input: Buffer.from(headers), left: 0, top: 0 }, ...tiles])
+    .png()
+    .toFile(outputPath);
+
+  return outputPath;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, test } from 'bun:test';
+import { costliestAttempt, estimateCost, requestCost, upscaleCost } from './cost';
+
+describe('costliestAttempt', () => {
+  test('prices a run at the most expensive model in its fallback chain', () => {
+    const attempt = costliestAttempt({ model: 'flux-schnell', prompt: 'A mug', quality: 'hd', fallback: ['gpt-image-1'] });
+    expect(attempt.model).toBe('gpt-image-1');
+    expect(estimateCost([attempt]).total).toBe(requestCost(attempt)!);
+  });
+
+  test('keeps the requested model without fallbacks', () => {
+    expect(costliestAttempt({ model: 'flux', prompt: 'A mug' }).model).toBe('flux');
+  });
+
+  test('skips fallbacks that cannot carry out an edit', () => {
+    const attempt = costliestAttempt({ model: 'flux-schnell', prompt: 'Make it red', editImage: 'in.png', fallback: ['imagen-4'] });
+    expect(attempt.model).toBe('flux-schnell');
+  });
+});
+
+describe('upscaleCost', () => {
+  test('charges for Replicate upscales from --upscale and the post chain', () => {
+    expect(upscaleCost({ model: 'mock', prompt: 'A mug', upscale: 2 })).toBe(0);
+    expect(upscaleCost({ model: 'mock', prompt: 'A mug', upscale: 2, upscaler: 'replicate' })).toBe(0.0025);
+    expect(upscaleCost({ model: 'mock', prompt: 'A mug', upscale: 2, upscaler: 'replicate', post: 'trim,upscale:4x:replicate' })).toBe(0.005);
+  });
+
+  test('is added to the estimate for every image', () => {
+    const estimate = estimateCost([{ model: 'mock', prompt: 'A mug', numImages: 2, post: 'upscale:2x:replicate' }]);
+    expect(estimate.total).toBeCloseTo((requestCost({ model: 'mock', prompt: 'A mug', numImages: 2 }) ?? 0) + 0.005);
+  });
+});
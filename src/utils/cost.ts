@@ -0,0 +1,134 @@
+import { createInterface } from 'readline/promises';
+import { getModelDefinition } from '../providers';
+import { fallbackChain, translateOptions } from '../providers/fallback';
+import { parsePostSteps } from './processors';
+import { resolveUpscaler } from './upscale';
+import type { GenerateOptions, Model, ModelPricing } from '../types';
+
+/**
+ * Spend above which the CLI asks before generating, unless [confirm-cost] is configured
+ */
+export const DEFAULT_CONFIRM_COST = 1;
+
+const pricingOverrides: Map<Model, ModelPricing> = new Map();
+
+export interface CostEstimate {
+  /** USD for every image whose model has a price */
+  total: number;
+  images: number;
+  /** Models with no known price, left out of total */
+  unpriced: Model[];
+}
+
+/**
+ * Replace the built-in price of models, e.g. from [pricing] in config
+ */
+export function setPricing(overrides: Record<Model, ModelPricing>): void {
+  for (const [model, pricing] of Object.entries(overrides)) {
+    pricingOverrides.set(model, pricing);
+  }
+}
+
+export function getPricing(model: Model): ModelPricing | undefined {
+  return pricingOverrides.get(model) ?? getModelDefinition(model)?.pricing;
+}
+
+/**
+ * Estimated USD for one request, or undefined when the model has no price
+ */
+export function requestCost(options: GenerateOptions): number | undefined {
+  const pricing = getPricing(options.model);
+  if (!pricing) return undefined;
+
+  const perImage = (options.quality && pricing.quality?.[options.quality]) ?? pricing.perImage;
+  const multiplier = pricing.multipliers?.[options.size ?? options.aspectRatio ?? ''] ?? 1;
+  return perImage * multiplier * (options.numImages || 1);
+}
+
+/**
+ * Estimated USD for the paid upscales of one image: --upscale and any upscale steps in
+ * the post chain, for backends with a price
+ */
+export function upscaleCost(options: GenerateOptions): number {
+  const backends = parsePostSteps(options.post ?? [])
+    .filter((step) => step.processor.name === 'upscale')
+    .map((step) => (step.args as { upscaler?: string }).upscaler);
+  if (options.upscale && options.upscale > 1) backends.push(options.upscaler);
+  return backends.reduce((total, backend) => total + (resolveUpscaler(backend).pricing?.perRun ?? 0), 0);
+}
+
+/**
+ * A run as adapted for the most expensive model in its fallback chain, since any of
+ * them may end up producing the images. This is what budgets are checked against.
+ */
+export function costliestAttempt(options: GenerateOptions): GenerateOptions {
+  const attempts = fallbackChain(options).map((model) => translateOptions(options, model));
+  return attempts.reduce((costliest, attempt) =>
+    (requestCost(attempt) ?? 0) > (requestCost(costliest) ?? 0) ? attempt : costliest);
+}
+
+/**
+ * Estimate a set of requests, as adapted for their models (see costliestAttempt), with
+ * their paid upscales
+ */
+export function estimateCost(runs: GenerateOptions[]): CostEstimate {
+  const estimate: CostEstimate = { total: 0, images: 0, unpriced: [] };
+  for (const run of runs) {
+    const cost = requestCost(run);
+    estimate.images += run.numImages || 1;
+    estimate.total += upscaleCost(run) * (run.numImages || 1);
+    if (cost === undefined) {
+      if (!estimate.unpriced.includes(run.model)) estimate.unpriced.push(run.model);
+    } else {
+      estimate.total += cost;
+    }
+  }
+  return estimate;
+}
+
+export function formatCost(usd: number): string {
+  return `$${usd < 0.1 && usd > 0 ? usd.toFixed(3) : usd.toFixed(2)}`;
+}
+
+export function describeEstimate(estimate: CostEstimate): string {
+  const unpriced = estimate.unpriced.length ? ` (not counting ${estimate.unpriced.join(', ')}: no price known)` : '';
+  return `Estimated cost: ${formatCost(estimate.total)} for ${estimate.images} image(s)${unpriced}`;
+}
+
+export interface BudgetLimits {
+  /** Refuse when the estimate is above this */
+  maxCost?: number;
+  /** Ask when the estimate is above this; defaults to DEFAULT_CONFIRM_COST */
+  confirmCost?: number;
+  /** Whether the user can be asked; when false, runs above confirmCost go ahead */
+  interactive: boolean;
+}
+
+/**
+ * Check an estimate against the budget, asking on the terminal when it is above the
+ * confirmation threshold. Throws when over --max-cost or when the user declines.
+ */
+export async function approveCost(estimate: CostEstimate, limits: BudgetLimits): Promise<void> {
+  if (limits.maxCost !== undefined && estimate.total > limits.maxCost) {
+    throw new Error(`${describeEstimate(estimate)} exceeds --max-cost ${formatCost(limits.maxCost)}`);
+  }
+
+  const threshold = limits.confirmCost ?? DEFAULT_CONFIRM_COST;
+  if (limits.interactive && estimate.total > threshold) {
+    if (!(await confirm(`${describeEstimate(estimate)}. Continue?`))) {
+      throw new Error('Aborted');
+    }
+  }
+}
+
+/**
+ * Ask a yes/no question on the terminal. Only call when stdin is a TTY.
+ */
+export async function confirm(question: string): Promise<boolean> {
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    return /^y(es)?$/i.test((await rl.question(`${question} [y/N] `)).trim());
+  } finally {
+    rl.close();
+  }
+}
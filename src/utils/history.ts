@@ -0,0 +1,105 @@
+import { appendFile, mkdir } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import type { GenerateOptions, GenerationErrorKind } from '../types';
+
+/**
+ * One provider.generate() call. Fallback attempts are recorded as separate entries.
+ */
+export interface HistoryEntry {
+  id: string;
+  timestamp: string;
+  model: string;
+  prompt: string;
+  options: GenerateOptions;
+  success: boolean;
+  outputPath?: string;
+  /** Every image saved, when the request returned more than one */
+  outputPaths?: string[];
+  error?: string;
+  errorKind?: GenerationErrorKind;
+  duration: number;
+}
+
+export function dataDir(): string {
+  return join(process.env.XDG_DATA_HOME || join(homedir(), '.local', 'share'), 'img-gen');
+}
+
+export function historyPath(): string {
+  return process.env.IMG_GEN_HISTORY_FILE || join(dataDir(), 'history.jsonl');
+}
+
+/**
+ * Append an entry to the history file. Each entry is one line, so concurrent
+ * generations can append without coordinating.
+ */
+export async function recordHistory(entry: Omit<HistoryEntry, 'id' | 'timestamp'>): Promise<HistoryEntry> {
+  const full: HistoryEntry = {
+    id: randomUUID().replace(/-/g, '').slice(0, 10),
+    timestamp: new Date().toISOString(),
+    ...entry,
+  };
+
+  const path = historyPath();
+  await mkdir(dirname(path), { recursive: true });
+  await appendFile(path, JSON.stringify(full) + '\n');
+  return full;
+}
+
+/**
+ * Read all entries, oldest first. Unparseable lines are skipped.
+ */
+export async function readHistory(): Promise<HistoryEntry[]> {
+  const file = Bun.file(historyPath());
+  if (!(await file.exists())) return [];
+
+  const entries: HistoryEntry[] = [];
+  for (const line of (await file.text()).split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // Ignore a partially written line
+    }
+  }
+  return entries;
+}
+
+/**
+ * Find an entry by its id or a unique id prefix
+ */
+export async function findHistoryEntry(id: string): Promise<HistoryEntry | undefined> {
+  const matches = (await readHistory()).filter((entry) => entry.id.startsWith(id));
+  if (matches.length > 1) {
+    throw new Error(`History id "${id}" is ambiguous (${matches.length} matches)`);
+  }
+  return matches[0];
+}
+
+/**
+ * Entries whose prompt, negative prompt or model contain every word of the query, newest first
+ */
+export async function searchHistory(query: string): Promise<HistoryEntry[]> {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return (await readHistory())
+    .filter((entry) => {
+      const haystack = [entry.prompt, entry.options.negativePrompt, entry.model].join(' ').toLowerCase();
+      return words.every((word) => haystack.includes(word));
+    })
+    .reverse();
+}
+
+/**
+ * Rewrite the history file without the given ids. Returns how many entries were removed.
+ */
+export async function removeHistoryEntries(ids: string[]): Promise<number> {
+  const entries = await readHistory();
+  const kept = entries.filter((entry) => !ids.includes(entry.id));
+  const removed = entries.length - kept.length;
+
+  if (removed > 0) {
+    await Bun.write(historyPath(), kept.map((entry) => JSON.stringify(entry) + '\n').join(''));
+  }
+  return removed;
+}
@@ -0,0 +1,113 @@
+import { appendFile, mkdir } from 'fs/promises';
+import { join, dirname } from 'path';
+import { userInfo } from 'os';
+import { dataDir } from './history';
+
+/**
+ * Spend for one successful provider call. Estimated from the model's price, since
+ * providers don't report what they charged.
+ */
+export interface SpendEntry {
+  timestamp: string;
+  model: string;
+  provider: string;
+  images: number;
+  cost: number;
+  user: string;
+  historyId?: string;
+}
+
+export interface SpendTotals {
+  images: number;
+  cost: number;
+}
+
+export interface SpendSummary {
+  since?: string;
+  total: SpendTotals;
+  byModel: Record<string, SpendTotals>;
+  byUser: Record<string, SpendTotals>;
+}
+
+export function ledgerPath(): string {
+  return process.env.IMG_GEN_LEDGER_FILE || join(dataDir(), 'spend.jsonl');
+}
+
+/**
+ * Who is spending: IMG_GEN_USER, or the login name
+ */
+export function currentUser(): string {
+  if (process.env.IMG_GEN_USER) return process.env.IMG_GEN_USER;
+  try {
+    return userInfo().username;
+  } catch {
+    return 'unknown';
+  }
+}
+
+export async function recordSpend(entry: Omit<SpendEntry, 'timestamp' | 'user'>): Promise<void> {
+  const path = ledgerPath();
+  await mkdir(dirname(path), { recursive: true });
+  await appendFile(path, JSON.stringify({ timestamp: new Date().toISOString(), user: currentUser(), ...entry }) + '\n');
+}
+
+/**
+ * Read all entries, oldest first. Unparseable lines are skipped.
+ */
+export async function readLedger(): Promise<SpendEntry[]> {
+  const file = Bun.file(ledgerPath());
+  if (!(await file.exists())) return [];
+
+  const entries: SpendEntry[] = [];
+  for (const line of (await file.text()).split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // Ignore a partially written line
+    }
+  }
+  return entries;
+}
+
+const PERIOD_UNITS: Record<string, number> = { h: 3_600_000, d: 86_400_000, w: 7 * 86_400_000 };
+
+/**
+ * Parse --since: a period such as "30d", "12h" or "2w", or a date such as 2026-01-01
+ */
+export function parseSince(value: string, now: Date = new Date()): Date {
+  const period = value.match(/^(\d+)([hdw])$/);
+  if (period) {
+    return new Date(now.getTime() - Number(period[1]) * PERIOD_UNITS[period[2]]);
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid --since "${value}". Use a period like 30d, 12h or 2w, or a date like 2026-01-01`);
+  }
+  return date;
+}
+
+function add(totals: Record<string, SpendTotals>, key: string, entry: SpendEntry): void {
+  totals[key] ??= { images: 0, cost: 0 };
+  totals[key].images += entry.images;
+  totals[key].cost += entry.cost;
+}
+
+export function summarizeSpend(entries: SpendEntry[], since?: Date): SpendSummary {
+  const summary: SpendSummary = {
+    since: since?.toISOString(),
+    total: { images: 0, cost: 0 },
+    byModel: {},
+    byUser: {},
+  };
+
+  for (const entry of entries) {
+    if (since && new Date(entry.timestamp) < since) continue;
+    summary.total.images += entry.images;
+    summary.total.cost += entry.cost;
+    add(summary.byModel, entry.model, entry);
+    add(summary.byUser, entry.user, entry);
+  }
+  return summary;
+}
@@ -0,0 +1,120 @@
+import { dirname, extname, join, resolve } from 'path';
+import type { AspectRatio, GenerateOptions, Model } from '../types';
+import { DEFAULT_OPTIONS } from '../types';
+import { resolvePath, validateOptionFields } from './options';
+
+export interface BatchJob {
+  id: string;
+  options: GenerateOptions;
+}
+
+type ManifestEntry = Partial<GenerateOptions> & { id?: string };
+
+export class ManifestError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid batch manifest:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+    this.name = 'ManifestError';
+  }
+}
+
+/**
+ * Parse raw manifest text. JSONL files hold one job per line; YAML files hold
+ * either a list of jobs or an object with `jobs` and optional shared `defaults`.
+ */
+function parseEntries(text: string, format: 'jsonl' | 'yaml'): ManifestEntry[] {
+  if (format === 'jsonl') {
+    const entries: ManifestEntry[] = [];
+    const lines = text.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim();
+      if (!line || line.startsWith('#')) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch (error) {
+        throw new ManifestError([`line ${i + 1}: ${error instanceof Error ? error.message : 'invalid JSON'}`]);
+      }
+    }
+    return entries;
+  }
+
+  const doc = Bun.YAML.parse(text) as unknown;
+  if (Array.isArray(doc)) return doc;
+
+  if (doc && typeof doc === 'object' && Array.isArray((doc as { jobs?: unknown }).jobs)) {
+    const { jobs, defaults = {} } = doc as { jobs: ManifestEntry[]; defaults?: ManifestEntry };
+    return jobs.map((job) => ({ ...defaults, ...job }));
+  }
+
+  throw new ManifestError(['expected a list of jobs or an object with a "jobs" list']);
+}
+
+function validateEntry(entry: ManifestEntry, label: string, baseDir: string): string[] {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    return [`${label}: expected an object`];
+  }
+
+  const issues = validateOptionFields(entry, label, baseDir, ['id', 'prompt']);
+  if (typeof entry.prompt !== 'string' || !entry.prompt.trim()) {
+    issues.push(`${label}: "prompt" is required`);
+  }
+  return issues;
+}
+
+/**
+ * Load and validate every job in a manifest up front.
+ * Relative output and reference paths are resolved against the manifest's directory;
+ * jobs without an output are written to outDir as <id>.png. Values a job doesn't set come
+ * from the manifest's own defaults, then from `defaults` (the resolved user config).
+ * Throws ManifestError listing all problems if any entry is invalid.
+ */
+export async function loadManifest(
+  manifestPath: string,
+  outDir: string,
+  defaults: Partial<GenerateOptions> = {}
+): Promise<BatchJob[]> {
+  const file = Bun.file(manifestPath);
+  if (!(await file.exists())) {
+    throw new ManifestError([`manifest not found: ${manifestPath}`]);
+  }
+
+  const ext = extname(manifestPath).toLowerCase();
+  const format = ext === '.yaml' || ext === '.yml' ? 'yaml' : 'jsonl';
+  const entries = parseEntries(await file.text(), format);
+  const baseDir = dirname(resolve(manifestPath));
+
+  if (entries.length === 0) {
+    throw new ManifestError(['manifest contains no jobs']);
+  }
+
+  const issues: string[] = [];
+  const seenIds = new Set<string>();
+
+  entries.forEach((entry, index) => {
+    const id = entry?.id ?? `job-${index + 1}`;
+    const label = `job ${index + 1} (${id})`;
+    if (seenIds.has(id)) issues.push(`${label}: duplicate id`);
+    seenIds.add(id);
+    issues.push(...validateEntry(entry, label, baseDir));
+  });
+
+  if (issues.length) {
+    throw new ManifestError(issues);
+  }
+
+  return entries.map((entry, index) => {
+    const { id = `job-${index + 1}`, ...jobOptions } = entry;
+    // A configured default output would make every job overwrite the same file
+    const options = { ...defaults, output: undefined, ...jobOptions };
+    return {
+      id,
+      options: {
+        ...options,
+        model: (options.model || DEFAULT_OPTIONS.model) as Model,
+        prompt: options.prompt!.trim(),
+        aspectRatio: (options.aspectRatio || DEFAULT_OPTIONS.aspectRatio) as AspectRatio,
+        output: options.output ? resolvePath(options.output, baseDir) : join(outDir, `${id}.png`),
+        referenceImages: options.referenceImages?.map((ref) => resolvePath(ref, baseDir)),
+      },
+    };
+  });
+}
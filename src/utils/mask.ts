@@ -0,0 +1,38 @@
+import sharp from 'sharp';
+
+/**
+ * Read an inpainting mask as a grayscale PNG the size of the image being edited, with
+ * white marking the area to change. Masks may mark that area in white on black, or as
+ * transparent pixels (the OpenAI convention).
+ */
+export async function readMask(maskPath: string, imagePath: string): Promise<Buffer> {
+  const { width, height } = await sharp(imagePath).metadata();
+
+  // Decide from the original pixels, since resizing blurs alpha at the edges. stats()
+  // describes the input image, so alpha is its last channel.
+  const { hasAlpha } = await sharp(maskPath).metadata();
+  const { channels } = await sharp(maskPath).stats();
+  const transparent = hasAlpha && channels[channels.length - 1].min < 255;
+
+  const mask = transparent
+    ? sharp(maskPath).extractChannel('alpha').negate()
+    : sharp(maskPath).flatten({ background: '#000000' }).greyscale();
+  return sharp(await mask.png().toBuffer())
+    .resize(width, height, { fit: 'fill' })
+    .threshold(128)
+    .png()
+    .toBuffer();
+}
+
+/**
+ * The mask as an RGBA PNG that is transparent where the image may change, as
+ * OpenAI's images.edit expects
+ */
+export async function toAlphaMask(mask: Buffer): Promise<Buffer> {
+  const { width, height } = await sharp(mask).metadata();
+  const keep = await sharp(mask).negate().extractChannel(0).toBuffer();
+  return sharp({ create: { width: width!, height: height!, channels: 3, background: '#000000' } })
+    .joinChannel(keep)
+    .png()
+    .toBuffer();
+}
@@ -0,0 +1,127 @@
+import { existsSync } from 'fs';
+import { homedir } from 'os';
+import { isAbsolute, join, resolve } from 'path';
+import type { GenerateOptions } from '../types';
+import { ASPECT_RATIO_TO_DIMENSIONS } from '../types';
+import { isKnownModel } from '../providers';
+import { UPSCALE_FACTORS, upscalerNames } from './upscale';
+import { BACKGROUND_REMOVERS } from './background';
+import { parsePostSteps } from './processors';
+
+/**
+ * GenerateOptions fields that may be set from files (manifests, config).
+ * prompt is excluded here; callers that need it add it to their allowed keys.
+ */
+export const FILE_OPTION_KEYS = [
+  'model', 'size', 'aspectRatio', 'output', 'referenceImages',
+  'transparent', 'removeBg', 'addBg', 'negativePrompt', 'thumbnail', 'upscale', 'upscaler', 'post', 'seed',
+  'steps', 'guidance', 'strength', 'quality', 'style', 'numImages', 'useApi', 'retries', 'fallback',
+  'embedMetadata', 'clobber',
+] as const;
+
+const NUMERIC_KEYS = ['upscale', 'seed', 'steps', 'guidance', 'strength', 'numImages', 'retries'] as const;
+const BOOLEAN_KEYS = ['transparent', 'useApi', 'embedMetadata', 'clobber'] as const;
+
+/**
+ * Resolve a path from a file relative to that file's directory, expanding ~
+ */
+export function resolvePath(path: string, baseDir: string): string {
+  if (path === '~' || path.startsWith('~/')) return join(homedir(), path.slice(1));
+  return isAbsolute(path) ? path : resolve(baseDir, path);
+}
+
+/**
+ * Check option values read from a file, returning human-readable issues prefixed
+ * with label. Keys outside FILE_OPTION_KEYS and extraKeys are reported as unknown.
+ */
+export function validateOptionFields(
+  entry: Record<string, unknown>,
+  label: string,
+  baseDir: string,
+  extraKeys: readonly string[] = []
+): string[] {
+  const issues: string[] = [];
+  const allowed = new Set<string>([...FILE_OPTION_KEYS, ...extraKeys]);
+  const values = entry as Partial<GenerateOptions>;
+
+  for (const key of Object.keys(entry)) {
+    if (!allowed.has(key)) issues.push(`${label}: unknown field "${key}"`);
+  }
+
+  if (values.model !== undefined && !isKnownModel(values.model)) {
+    issues.push(`${label}: unknown model "${values.model}"`);
+  }
+
+  if (values.fallback !== undefined) {
+    if (!Array.isArray(values.fallback)) {
+      issues.push(`${label}: "fallback" must be a list of models`);
+    } else {
+      for (const model of values.fallback) {
+        if (!isKnownModel(model)) issues.push(`${label}: unknown fallback model "${model}"`);
+      }
+    }
+  }
+
+  if (values.aspectRatio !== undefined && !(values.aspectRatio in ASPECT_RATIO_TO_DIMENSIONS)) {
+    issues.push(`${label}: unsupported aspect ratio "${values.aspectRatio}"`);
+  }
+
+  for (const key of NUMERIC_KEYS) {
+    if (values[key] !== undefined && typeof values[key] !== 'number') {
+      issues.push(`${label}: "${key}" must be a number`);
+    }
+  }
+
+  for (const key of BOOLEAN_KEYS) {
+    if (values[key] !== undefined && typeof values[key] !== 'boolean') {
+      issues.push(`${label}: "${key}" must be true or false`);
+    }
+  }
+
+  if (values.quality !== undefined && !['standard', 'hd'].includes(values.quality)) {
+    issues.push(`${label}: "quality" must be standard or hd`);
+  }
+
+  if (values.style !== undefined && !['vivid', 'natural'].includes(values.style)) {
+    issues.push(`${label}: "style" must be vivid or natural`);
+  }
+
+  if (values.removeBg !== undefined && typeof values.removeBg !== 'boolean' &&
+      !(BACKGROUND_REMOVERS as readonly string[]).includes(values.removeBg)) {
+    issues.push(`${label}: "removeBg" must be true, false or one of ${BACKGROUND_REMOVERS.join(', ')}`);
+  }
+
+  if (typeof values.upscale === 'number' && !(UPSCALE_FACTORS as readonly number[]).includes(values.upscale)) {
+    issues.push(`${label}: "upscale" must be ${UPSCALE_FACTORS.join(' or ')}`);
+  }
+
+  if (values.upscaler !== undefined && !upscalerNames().includes(values.upscaler)) {
+    issues.push(`${label}: "upscaler" must be one of ${upscalerNames().join(', ')}`);
+  }
+
+  if (values.post !== undefined) {
+    if (typeof values.post !== 'string' && !(Array.isArray(values.post) && values.post.every((step) => typeof step === 'string'))) {
+      issues.push(`${label}: "post" must be a comma-separated string or a list of steps`);
+    } else {
+      try {
+        parsePostSteps(values.post);
+      } catch (error) {
+        issues.push(`${label}: ${error instanceof Error ? error.message : 'invalid "post"'}`);
+      }
+    }
+  }
+
+  if (values.referenceImages !== undefined) {
+    if (!Array.isArray(values.referenceImages)) {
+      issues.push(`${label}: "referenceImages" must be a list of paths`);
+    } else {
+      for (const ref of values.referenceImages) {
+        if (!existsSync(resolvePath(ref, baseDir))) {
+          issues.push(`${label}: reference image not found: ${ref}`);
+        }
+      }
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,104 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  claimOutputPath,
+  indexedOutputPath,
+  renderOutputTemplate,
+  slugify,
+  variationOutputPath,
+} from './output';
+import type { GenerateOptions } from '../types';
+
+// Local time, so {date} and {time} don't depend on the time zone
+const date = new Date(2026, 0, 2, 3, 4, 5);
+const options: GenerateOptions = { model: 'flux', prompt: 'A Café on the <Moon>!', seed: 42 };
+
+describe('slugify', () => {
+  test('keeps lowercase words joined by hyphens', () => {
+    expect(slugify('A Café on the <Moon>!')).toBe('a-cafe-on-the');
+    expect(slugify('  Hello,   World  ')).toBe('hello-world');
+  });
+
+  test('cuts at a word boundary and never returns an empty name', () => {
+    expect(slugify('one two three', 8)).toBe('one-two');
+    expect(slugify('!!!')).toBe('image');
+  });
+});
+
+describe('renderOutputTemplate', () => {
+  test('expands every token', () => {
+    const path = renderOutputTemplate('out/{date}/{time}-{slug}-{model}-{seed}-{n}.{ext}', {
+      prompt: options.prompt,
+      model: 'flux',
+      seed: 42,
+      n: 3,
+      date,
+    });
+    expect(path).toBe('out/2026-01-02/030405-a-cafe-on-the-flux-42-3.png');
+  });
+
+  test('writes "random" for a missing seed and a stable hash', () => {
+    const context = { prompt: 'x', model: 'mock', n: 1, date };
+    expect(renderOutputTemplate('{seed}', context)).toBe('random');
+    expect(renderOutputTemplate('{hash}', context)).toMatch(/^[0-9a-f]{8}$/);
+    expect(renderOutputTemplate('{hash}', context)).toBe(renderOutputTemplate('{hash}', context));
+    expect(renderOutputTemplate('{hash}', { ...context, n: 2 })).not.toBe(renderOutputTemplate('{hash}', context));
+  });
+
+  test('rejects unknown tokens', () => {
+    expect(() => renderOutputTemplate('{prompt}.png', { prompt: 'x', model: 'mock', n: 1, date })).toThrow(
+      'Unknown output token {prompt}'
+    );
+  });
+});
+
+describe('variationOutputPath', () => {
+  test('leaves a single image as rendered', () => {
+    expect(variationOutputPath('{slug}.png', options, 1, 1, date)).toBe('a-cafe-on-the.png');
+  });
+
+  test('adds -v<i> to variations when the template has no {n}', () => {
+    expect(variationOutputPath('shot.jpg', options, 2, 3, date)).toBe('shot-v2.jpg');
+    expect(variationOutputPath('shot', options, 2, 3, date)).toBe('shot-v2.png');
+  });
+
+  test('relies on {n} when the template has it', () => {
+    expect(variationOutputPath('shot-{n}.png', options, 2, 3, date)).toBe('shot-2.png');
+  });
+});
+
+describe('indexedOutputPath', () => {
+  test('numbers images returned by one request', () => {
+    expect(indexedOutputPath('out/a.webp', 1, 1)).toBe('out/a.webp');
+    expect(indexedOutputPath('out/a.webp', 2, 4)).toBe('out/a-2.webp');
+  });
+});
+
+describe('claimOutputPath', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'img-gen-test-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('returns the path as is when overwriting is allowed', async () => {
+    const path = join(dir, 'existing.png');
+    await writeFile(path, '');
+    expect(claimOutputPath(path, true)).toBe(path);
+  });
+
+  test('suffixes existing and already claimed paths without clobber', async () => {
+    const path = join(dir, 'taken.png');
+    await writeFile(path, '');
+    expect(claimOutputPath(path, false)).toBe(join(dir, 'taken-1.png'));
+    // Claimed above, though nothing has been written there yet
+    expect(claimOutputPath(path, false)).toBe(join(dir, 'taken-2.png'));
+    expect(claimOutputPath(join(dir, 'free.png'), false)).toBe(join(dir, 'free.png'));
+  });
+});
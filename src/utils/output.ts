@@ -0,0 +1,131 @@
+import { createHash } from 'crypto';
+import { existsSync } from 'fs';
+import type { GenerateOptions } from '../types';
+
+const IMAGE_EXTENSION = /\.(png|jpg|jpeg|webp)$/i;
+const TOKEN = /\{(\w+)\}/g;
+
+export const OUTPUT_TOKENS = ['slug', 'date', 'time', 'timestamp', 'model', 'seed', 'n', 'hash', 'ext'] as const;
+
+// Paths handed out during this run, so concurrent jobs never pick the same name
+const claimedPaths = new Set<string>();
+
+export interface OutputContext {
+  prompt: string;
+  model: string;
+  seed?: number;
+  /** 1-based variation index */
+  n: number;
+  /** Shared by every image in a run, so {date}/{time} stay consistent */
+  date: Date;
+}
+
+/**
+ * Lowercase, hyphenated prefix of the prompt suitable for a file name
+ */
+export function slugify(text: string, maxLength = 48): string {
+  const slug = text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug.slice(0, maxLength).replace(/-+$/, '') || 'image';
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * Expand {token} placeholders in an output path template, e.g.
+ * "out/{date}/{slug}-{model}-{seed}-{n}.{ext}". Unknown tokens are an error.
+ */
+export function renderOutputTemplate(template: string, context: OutputContext): string {
+  const { date } = context;
+  const values: Record<(typeof OUTPUT_TOKENS)[number], string> = {
+    slug: slugify(context.prompt),
+    date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    time: `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`,
+    timestamp: String(Math.floor(date.getTime() / 1000)),
+    model: context.model,
+    seed: context.seed !== undefined ? String(context.seed) : 'random',
+    n: String(context.n),
+    hash: createHash('sha256')
+      .update([context.prompt, context.model, context.seed, context.n, date.getTime()].join('|'))
+      .digest('hex')
+      .slice(0, 8),
+    ext: 'png',
+  };
+
+  return template.replace(TOKEN, (match, token: string) => {
+    if (!(token in values)) {
+      throw new Error(`Unknown output token ${match}. Available: ${OUTPUT_TOKENS.map((t) => `{${t}}`).join(' ')}`);
+    }
+    return values[token as keyof typeof values];
+  });
+}
+
+/**
+ * Output path for one image of a run. Without an {n} token, variations keep the
+ * original "-v{i}" suffix.
+ */
+export function variationOutputPath(
+  template: string,
+  options: GenerateOptions,
+  index: number,
+  count: number,
+  date: Date
+): string {
+  let path = renderOutputTemplate(template, {
+    prompt: options.prompt,
+    model: options.model,
+    seed: options.seed,
+    n: index,
+    date,
+  });
+
+  if (count > 1 && !template.includes('{n}')) {
+    const ext = path.match(IMAGE_EXTENSION)?.[0] || '.png';
+    path = `${path.replace(IMAGE_EXTENSION, '')}-v${index}${ext}`;
+  }
+
+  return path;
+}
+
+/**
+ * Path for one of several images returned by a single request: "-1", "-2", ...
+ * before the extension. A single image keeps the path as is.
+ */
+export function indexedOutputPath(path: string, index: number, count: number): string {
+  if (count <= 1) return path;
+  const ext = path.match(IMAGE_EXTENSION)?.[0] || '.png';
+  return `${path.replace(IMAGE_EXTENSION, '')}-${index}${ext}`;
+}
+
+/**
+ * Path for a sweep's contact sheet: the rendered output template with a -sheet suffix
+ */
+export function contactSheetOutputPath(template: string, options: GenerateOptions, date: Date): string {
+  const path = renderOutputTemplate(template, { prompt: options.prompt, model: options.model, seed: options.seed, n: 0, date });
+  return `${path.replace(IMAGE_EXTENSION, '')}-sheet.png`;
+}
+
+/**
+ * Reserve an output path. With clobber disabled, an existing (or already claimed)
+ * file gets a -1, -2, ... suffix instead of being overwritten.
+ */
+export function claimOutputPath(path: string, clobber: boolean): string {
+  if (clobber) return path;
+
+  const ext = path.match(IMAGE_EXTENSION)?.[0] || '';
+  const base = ext ? path.slice(0, -ext.length) : path;
+  let candidate = path;
+  for (let i = 1; existsSync(candidate) || claimedPaths.has(candidate); i++) {
+    candidate = `${base}-${i}${ext}`;
+  }
+
+  claimedPaths.add(candidate);
+  return candidate;
+}
@@ -0,0 +1,74 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import sharp from 'sharp';
+import { existsSync } from 'fs';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parsePostSteps, postStepInputs, runPostSteps } from './processors';
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'img-gen-test-'));
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('parsePostSteps', () => {
+  test('splits a comma-separated chain and parses each step', () => {
+    const steps = parsePostSteps(' trim, pad:16:#abc ,format:webp:80,,thumb ');
+    expect(steps.map((step) => step.spec)).toEqual(['trim', 'pad:16:#abc', 'format:webp:80', 'thumb']);
+    expect(steps.map((step) => step.args)).toEqual([
+      10,
+      { pixels: 16, color: '#AABBCC' },
+      { format: 'webp', quality: 80 },
+      256,
+    ]);
+  });
+
+  test('takes a list of steps and aliases', () => {
+    const steps = parsePostSteps(['add-bg:#ffffff', 'thumbnail:128', 'resize:x800', 'upscale:4x:local']);
+    expect(steps.map((step) => step.processor.name)).toEqual(['bg', 'thumb', 'resize', 'upscale']);
+    expect(steps[0].name).toBe('add-bg');
+    expect(steps[2].args).toEqual({ width: undefined, height: 800 });
+    expect(steps[3].args).toEqual({ factor: 4, upscaler: 'local' });
+  });
+
+  test('names the step that is unknown or invalid', () => {
+    expect(() => parsePostSteps('trim,blur')).toThrow('Unknown post-processing step "blur"');
+    expect(() => parsePostSteps('pad')).toThrow('Invalid post-processing step "pad": expected pad:<px> or pad:<px>:<hex>');
+    expect(() => parsePostSteps('format:gif')).toThrow('Invalid post-processing step "format:gif"');
+    expect(() => parsePostSteps('format:jpg:101')).toThrow('quality must be a whole number from 1 to 100');
+    expect(() => parsePostSteps('remove-bg:magic')).toThrow('backend must be one of');
+    expect(() => parsePostSteps('composite:/no/such/file.png')).toThrow('background image not found');
+  });
+});
+
+describe('postStepInputs', () => {
+  test('lists the files steps would read, without checking them', () => {
+    expect(postStepInputs('trim,composite:C:\\bg.png,thumb')).toEqual(['C:\\bg.png']);
+    expect(postStepInputs(['composite:/no/such/file.png', 'nope'])).toEqual(['/no/such/file.png']);
+  });
+});
+
+describe('runPostSteps', () => {
+  test('runs steps in order and follows a format change to its new path', async () => {
+    const source = join(dir, 'shot.png');
+    await sharp({ create: { width: 40, height: 20, channels: 4, background: '#336699' } }).png().toFile(source);
+
+    const applied: string[] = [];
+    const result = await runPostSteps(source, parsePostSteps('pad:5,format:jpg:70,thumb:16'), { clobber: true }, (step) => {
+      applied.push(step.spec);
+    });
+
+    expect(applied).toEqual(['pad:5', 'format:jpg:70', 'thumb:16']);
+    expect(result.applied).toEqual(['pad', 'format', 'thumb']);
+    expect(result.outputPath).toBe(join(dir, 'shot.jpg'));
+    expect(existsSync(source)).toBe(false);
+    expect(await sharp(result.outputPath).metadata()).toMatchObject({ format: 'jpeg', width: 50, height: 30 });
+    expect(result.thumbnailPaths).toHaveLength(1);
+    expect(existsSync(result.thumbnailPaths[0])).toBe(true);
+  });
+});
@@ -0,0 +1,312 @@
+import sharp from 'sharp';
+import { existsSync } from 'fs';
+import { unlink } from 'fs/promises';
+import {
+  addBackgroundColor,
+  BACKGROUND_REMOVERS,
+  compositeOnBackground,
+  convertFormat,
+  removeBackground,
+  resizeImage,
+  transparentOutputPath,
+} from './background';
+import { generateThumbnail } from './thumbnail';
+import { parseUpscaleFactor, upscaleImage, upscalerNames } from './upscale';
+import type { UpscaleFactor } from './upscale';
+import { claimOutputPath } from './output';
+
+/**
+ * What a step changed besides the image itself
+ */
+export interface StepOutput {
+  /** Where the image is now, when the step moved it (e.g. a new format's extension) */
+  outputPath?: string;
+  thumbnailPath?: string;
+}
+
+export interface StepContext {
+  /** Whether a step that writes a new file may overwrite an existing one */
+  clobber: boolean;
+}
+
+/**
+ * A post-processing step, written as name:arg:arg in --post. parse validates and
+ * normalizes the arguments before anything runs; run edits the image in place.
+ */
+export interface PostProcessor<Args = unknown> {
+  name: string;
+  usage: string;
+  description: string;
+  parse(args: string[]): Args;
+  /** Files the step would read besides the image, from its unparsed arguments */
+  inputs?(args: string[]): string[];
+  run(imagePath: string, args: Args, context: StepContext): Promise<StepOutput | void>;
+}
+
+/**
+ * A step from a --post chain with its arguments parsed
+ */
+export interface PostStep {
+  /** The name as written, e.g. "thumb" */
+  name: string;
+  /** The step as written, e.g. "thumb:256" */
+  spec: string;
+  processor: PostProcessor;
+  args: unknown;
+}
+
+const processors = new Map<string, PostProcessor>();
+
+export function registerPostProcessor<Args>(processor: PostProcessor<Args>, aliases: string[] = []): void {
+  for (const name of [processor.name, ...aliases]) {
+    processors.set(name, processor as PostProcessor);
+  }
+}
+
+/** Every registered processor once, in registration order */
+export function postProcessors(): PostProcessor[] {
+  return [...new Set(processors.values())];
+}
+
+function integer(value: string | undefined, what: string, min: number, max = Infinity): number {
+  const n = Number(value);
+  if (!value || !Number.isInteger(n) || n < min || n > max) {
+    throw new Error(`${what} must be a whole number${max < Infinity ? ` from ${min} to ${max}` : ` of at least ${min}`}`);
+  }
+  return n;
+}
+
+function hexColor(value: string | undefined): string {
+  if (!value || !/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value)) {
+    throw new Error(`expected a hex color such as #EAE9DF, got "${value ?? ''}"`);
+  }
+  const hex = value.replace('#', '');
+  return `#${hex.length === 3 ? [...hex].map((c) => c + c).join('') : hex}`.toUpperCase();
+}
+
+/**
+ * Read an image into memory, so sharp may write the result over it
+ */
+async function load(imagePath: string) {
+  return sharp(await Bun.file(imagePath).arrayBuffer());
+}
+
+registerPostProcessor({
+  name: 'remove-bg',
+  usage: 'remove-bg[:local|removebg|auto]',
+  description: 'Remove the background (see --remove-bg)',
+  parse(args) {
+    const [backend = 'auto'] = args;
+    if (!(BACKGROUND_REMOVERS as readonly string[]).includes(backend)) {
+      throw new Error(`backend must be one of ${BACKGROUND_REMOVERS.join(', ')}`);
+    }
+    return backend;
+  },
+  async run(imagePath, backend, { clobber }) {
+    // A JPEG can't hold transparency, so the result moves to a .png next to it
+    const target = transparentOutputPath(imagePath);
+    if (target === imagePath) {
+      await removeBackground(imagePath, imagePath, backend);
+      return;
+    }
+
+    const outputPath = await removeBackground(imagePath, claimOutputPath(target, clobber), backend);
+    await unlink(imagePath);
+    return { outputPath };
+  },
+});
+
+registerPostProcessor({
+  name: 'trim',
+  usage: 'trim[:threshold]',
+  description: 'Crop away borders the color of the top-left pixel (threshold: default 10)',
+  parse(args) {
+    return args.length ? integer(args[0], 'threshold', 0, 255) : 10;
+  },
+  async run(imagePath, threshold) {
+    const trimmed = await (await load(imagePath)).trim({ threshold }).toBuffer();
+    await Bun.write(imagePath, trimmed);
+  },
+});
+
+registerPostProcessor({
+  name: 'pad',
+  usage: 'pad:<px>[:<hex>]',
+  description: 'Add a border of px pixels on every side, transparent unless a color is given',
+  parse(args) {
+    if (!args.length || args.length > 2) throw new Error('expected pad:<px> or pad:<px>:<hex>');
+    return { pixels: integer(args[0], 'padding', 1), color: args[1] ? hexColor(args[1]) : undefined };
+  },
+  async run(imagePath, { pixels, color }) {
+    const padded = await (await load(imagePath))
+      .extend({
+        top: pixels, bottom: pixels, left: pixels, right: pixels,
+        background: color ?? { r: 0, g: 0, b: 0, alpha: 0 },
+      })
+      .toBuffer();
+    await Bun.write(imagePath, padded);
+  },
+});
+
+registerPostProcessor({
+  name: 'bg',
+  usage: 'bg:<hex>',
+  description: 'Fill transparent areas with a color (same as --add-bg)',
+  parse(args) {
+    if (args.length !== 1) throw new Error('expected bg:<hex>');
+    return hexColor(args[0]);
+  },
+  async run(imagePath, color) {
+    await addBackgroundColor(imagePath, imagePath, color);
+  },
+}, ['add-bg']);
+
+registerPostProcessor({
+  name: 'composite',
+  usage: 'composite:<image>',
+  description: 'Place the image over a background image, scaled to cover it',
+  parse(args) {
+    // Rejoin, since a path may contain colons
+    const path = args.join(':');
+    if (!path) throw new Error('expected composite:<image>');
+    if (!existsSync(path)) throw new Error(`background image not found: ${path}`);
+    return path;
+  },
+  inputs: (args) => [args.join(':')],
+  async run(imagePath, backgroundPath) {
+    await compositeOnBackground(imagePath, backgroundPath, imagePath);
+  },
+});
+
+registerPostProcessor({
+  name: 'resize',
+  usage: 'resize:<width>x<height>',
+  description: 'Shrink to fit within the size, keeping the aspect ratio; 1200x or x800 fixes one side',
+  parse(args) {
+    const match = args.length === 1 ? args[0].match(/^(\d*)x(\d*)$/) : null;
+    if (!match || (!match[1] && !match[2])) throw new Error('expected resize:<width>x<height>, resize:<width>x or resize:x<height>');
+    return {
+      width: match[1] ? integer(match[1], 'width', 1) : undefined,
+      height: match[2] ? integer(match[2], 'height', 1) : undefined,
+    };
+  },
+  async run(imagePath, { width, height }) {
+    await resizeImage(imagePath, imagePath, width, height);
+  },
+});
+
+registerPostProcessor({
+  name: 'upscale',
+  usage: `upscale:<2x|4x>[:${upscalerNames().join('|')}]`,
+  description: 'Enlarge the image (see --upscale)',
+  parse(args) {
+    if (!args.length || args.length > 2) throw new Error('expected upscale:<factor> or upscale:<factor>:<backend>');
+    const [factor, upscaler] = args;
+    if (upscaler && !upscalerNames().includes(upscaler)) {
+      throw new Error(`upscaler must be one of ${upscalerNames().join(', ')}`);
+    }
+    return { factor: parseUpscaleFactor(factor), upscaler };
+  },
+  async run(imagePath, { factor, upscaler }: { factor: UpscaleFactor; upscaler?: string }) {
+    await upscaleImage(imagePath, imagePath, factor, upscaler);
+  },
+});
+
+const FORMATS = { png: 'png', jpg: 'jpg', jpeg: 'jpg', webp: 'webp' } as const;
+
+registerPostProcessor({
+  name: 'format',
+  usage: 'format:<png|jpg|webp>[:quality]',
+  description: 'Convert to another format, changing the extension; quality 1-100 for jpg and webp',
+  parse(args) {
+    const format = FORMATS[args[0] as keyof typeof FORMATS];
+    if (!format || args.length > 2) throw new Error('expected format:png, format:jpg[:quality] or format:webp[:quality]');
+    return { format, quality: args[1] ? integer(args[1], 'quality', 1, 100) : undefined };
+  },
+  async run(imagePath, { format, quality }, { clobber }) {
+    const ext = format === 'jpg' ? '.jpg' : `.${format}`;
+    const target = imagePath.replace(/\.[^./\\]+$/, '') + ext;
+    if (target === imagePath) {
+      await convertFormat(imagePath, imagePath, format, quality);
+      return;
+    }
+
+    const outputPath = claimOutputPath(target, clobber);
+    await convertFormat(imagePath, outputPath, format, quality);
+    await unlink(imagePath);
+    return { outputPath };
+  },
+});
+
+registerPostProcessor({
+  name: 'thumb',
+  usage: 'thumb[:size]',
+  description: 'Save a thumbnail next to the image (size: default 256)',
+  parse(args) {
+    return args.length ? integer(args[0], 'thumbnail size', 1) : 256;
+  },
+  async run(imagePath, size) {
+    return { thumbnailPath: await generateThumbnail(imagePath, { size }) };
+  },
+}, ['thumbnail']);
+
+function splitChain(chain: string | string[]): string[] {
+  return (Array.isArray(chain) ? chain : chain.split(','))
+    .map((spec) => spec.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse a --post chain: comma-separated steps, or a list of steps from a config file.
+ * Throws on an unknown step or invalid arguments, naming the step.
+ */
+export function parsePostSteps(chain: string | string[]): PostStep[] {
+  return splitChain(chain).map((spec) => {
+    const [name, ...args] = spec.split(':');
+    const processor = processors.get(name);
+    if (!processor) {
+      throw new Error(`Unknown post-processing step "${name}". Available: ${[...processors.keys()].join(', ')}`);
+    }
+    try {
+      return { name, spec, processor, args: processor.parse(args) };
+    } catch (error) {
+      throw new Error(`Invalid post-processing step "${spec}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+}
+
+/**
+ * Files a chain would read besides the image itself, e.g. composite backgrounds.
+ * Nothing is parsed or opened, so this is safe to call on untrusted chains.
+ */
+export function postStepInputs(chain: string | string[]): string[] {
+  return splitChain(chain).flatMap((spec) => {
+    const [name, ...args] = spec.split(':');
+    return processors.get(name)?.inputs?.(args) ?? [];
+  });
+}
+
+/**
+ * Run parsed steps on an image in order. Returns the image's final path (a format step
+ * may change it), the thumbnails made, and the names of the steps applied.
+ */
+export async function runPostSteps(
+  imagePath: string,
+  steps: PostStep[],
+  context: StepContext,
+  onStep: (step: PostStep) => void = () => {}
+): Promise<{ outputPath: string; thumbnailPaths: string[]; applied: string[] }> {
+  let outputPath = imagePath;
+  const thumbnailPaths: string[] = [];
+  const applied: string[] = [];
+
+  for (const step of steps) {
+    onStep(step);
+    const output = await step.processor.run(outputPath, step.args, context);
+    if (output?.outputPath) outputPath = output.outputPath;
+    if (output?.thumbnailPath) thumbnailPaths.push(output.thumbnailPath);
+    applied.push(step.name);
+  }
+
+  return { outputPath, thumbnailPaths, applied };
+}
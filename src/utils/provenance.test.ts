@@ -0,0 +1,77 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import sharp from 'sharp';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { embedProvenance, readProvenance } from './provenance';
+import type { Provenance } from './provenance';
+
+const provenance: Provenance = {
+  tool: 'img-gen-cli',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  prompt: 'A "quoted" <cat> & a dog',
+  model: 'mock',
+  seed: 42,
+  aspectRatio: '1:1',
+  post: ['trim', 'format:webp:40'],
+};
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'img-gen-test-'));
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function writeImage(name: string, encode: (image: sharp.Sharp) => sharp.Sharp): Promise<string> {
+  const path = join(dir, name);
+  const noise = Buffer.from(Array.from({ length: 64 * 64 * 3 }, (_, i) => (i * 7919) % 256));
+  await encode(sharp(noise, { raw: { width: 64, height: 64, channels: 3 } })).toFile(path);
+  return path;
+}
+
+describe('embedProvenance / readProvenance', () => {
+  test.each([
+    ['png', (image: sharp.Sharp) => image.png()],
+    ['jpg', (image: sharp.Sharp) => image.jpeg({ quality: 40 })],
+    ['webp', (image: sharp.Sharp) => image.webp({ quality: 40 })],
+  ])('round-trips through %s', async (ext, encode) => {
+    const path = await writeImage(`round-trip.${ext}`, encode);
+    expect(await readProvenance(path)).toBeNull();
+
+    await embedProvenance(path, provenance);
+    expect(await readProvenance(path)).toEqual(provenance);
+  });
+
+  test('replaces earlier provenance instead of adding to it', async () => {
+    const path = await writeImage('twice.jpg', (image) => image.jpeg());
+    await embedProvenance(path, provenance);
+    await embedProvenance(path, { ...provenance, seed: 7 });
+
+    const { xmp } = await sharp(path).metadata();
+    expect(xmp!.toString('utf8').match(/imggen:Provenance>/g)).toHaveLength(2);
+    expect((await readProvenance(path))?.seed).toBe(7);
+  });
+
+  test.each([
+    ['jpg', (image: sharp.Sharp) => image.jpeg({ quality: 40 })],
+    ['webp', (image: sharp.Sharp) => image.webp({ quality: 40 })],
+  ])('keeps %s image data as encoded, so its quality setting survives', async (ext, encode) => {
+    const path = await writeImage(`quality.${ext}`, encode);
+    const before = Buffer.from(await Bun.file(path).arrayBuffer());
+    const json = JSON.stringify(provenance);
+
+    await embedProvenance(path, provenance);
+    const after = Buffer.from(await Bun.file(path).arrayBuffer());
+
+    // Only the metadata is added: the XMP packet is a few hundred bytes over the JSON
+    expect(after.length - before.length).toBeGreaterThan(json.length);
+    expect(after.length - before.length).toBeLessThan(json.length + 1024);
+
+    const pixels = async (buffer: Buffer) => sharp(buffer).raw().toBuffer();
+    expect((await pixels(after)).equals(await pixels(before))).toBe(true);
+  });
+});
@@ -0,0 +1,347 @@
+import sharp from 'sharp';
+import { createHash } from 'crypto';
+import { extname } from 'path';
+import type { GenerateOptions, GenerationResult } from '../types';
+
+/**
+ * Everything needed to tell how an image was made, embedded in the image file itself
+ */
+export interface Provenance {
+  tool: 'img-gen-cli';
+  createdAt: string;
+  prompt: string;
+  negativePrompt?: string;
+  model: string;
+  providerModel?: string;
+  seed?: number;
+  steps?: number;
+  guidance?: number;
+  aspectRatio?: string;
+  size?: string;
+  quality?: string;
+  style?: string;
+  transparent?: boolean;
+  numImages?: number;
+  useApi?: boolean;
+  removeBg?: boolean | string;
+  addBg?: string;
+  upscale?: number;
+  upscaler?: string;
+  post?: string | string[];
+  references?: Array<{ path: string; sha256: string }>;
+  /** The image that was edited, and the mask that limited the edit */
+  source?: { path: string; sha256: string };
+  mask?: { path: string; sha256: string };
+  strength?: number;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const PNG_KEYWORD = 'img-gen';
+const XMP_NAMESPACE = 'https://github.com/2b3pro/generate-AI-images-cli/ns/1.0/';
+
+export async function sha256File(path: string): Promise<string> {
+  const buffer = await Bun.file(path).arrayBuffer();
+  return createHash('sha256').update(Buffer.from(buffer)).digest('hex');
+}
+
+/**
+ * Collect provenance for a successful generation. The result's metadata wins over
+ * options for the model, since a fallback may have produced the image.
+ */
+export async function buildProvenance(options: GenerateOptions, result: GenerationResult): Promise<Provenance> {
+  const fingerprint = async (path: string) => ({ path, sha256: await sha256File(path) });
+  const references = options.referenceImages?.length
+    ? await Promise.all(options.referenceImages.map(fingerprint))
+    : undefined;
+
+  return {
+    tool: 'img-gen-cli',
+    createdAt: new Date().toISOString(),
+    prompt: options.prompt,
+    negativePrompt: options.negativePrompt,
+    model: result.metadata?.model ?? options.model,
+    providerModel: result.metadata?.providerModel,
+    seed: result.metadata?.seed ?? options.seed,
+    steps: options.steps,
+    guidance: options.guidance,
+    aspectRatio: options.aspectRatio,
+    size: options.size,
+    quality: options.quality,
+    style: options.style,
+    transparent: options.transparent,
+    numImages: options.numImages,
+    useApi: options.useApi,
+    removeBg: options.removeBg,
+    addBg: options.addBg,
+    upscale: options.upscale,
+    upscaler: options.upscale ? options.upscaler : undefined,
+    post: options.post,
+    references,
+    source: options.editImage ? await fingerprint(options.editImage) : undefined,
+    mask: options.editImage && options.mask ? await fingerprint(options.mask) : undefined,
+    strength: options.strength,
+  };
+}
+
+// --- PNG: iTXt chunk -------------------------------------------------------
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+interface PngChunk {
+  type: string;
+  data: Buffer;
+}
+
+function readPngChunks(buffer: Buffer): PngChunk[] {
+  if (!buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error('Not a PNG file');
+  }
+
+  const chunks: PngChunk[] = [];
+  let offset = 8;
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    chunks.push({ type, data: buffer.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+function encodePngChunk({ type, data }: PngChunk): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(data.length, 0);
+  header.write(type, 4, 'latin1');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), data])));
+  return Buffer.concat([header, data, crc]);
+}
+
+/**
+ * iTXt layout: keyword \0 compression-flag compression-method language \0 translated-keyword \0 text
+ */
+function encodeITxt(keyword: string, text: string): Buffer {
+  return Buffer.concat([
+    Buffer.from(keyword, 'latin1'),
+    Buffer.from([0, 0, 0, 0, 0]),
+    Buffer.from(text, 'utf8'),
+  ]);
+}
+
+function decodeITxt(data: Buffer): { keyword: string; text: string } | null {
+  const keywordEnd = data.indexOf(0);
+  if (keywordEnd < 0 || data[keywordEnd + 1] !== 0) return null; // compressed text is never written by us
+  const languageEnd = data.indexOf(0, keywordEnd + 3);
+  const translatedEnd = data.indexOf(0, languageEnd + 1);
+  if (languageEnd < 0 || translatedEnd < 0) return null;
+  return {
+    keyword: data.toString('latin1', 0, keywordEnd),
+    text: data.toString('utf8', translatedEnd + 1),
+  };
+}
+
+function isOurChunk(chunk: PngChunk): boolean {
+  return chunk.type === 'iTXt' && decodeITxt(chunk.data)?.keyword === PNG_KEYWORD;
+}
+
+function embedInPng(buffer: Buffer, provenance: Provenance): Buffer {
+  const chunks = readPngChunks(buffer).filter((chunk) => !isOurChunk(chunk));
+  const ours: PngChunk = { type: 'iTXt', data: encodeITxt(PNG_KEYWORD, JSON.stringify(provenance)) };
+  const iendIndex = chunks.findIndex((chunk) => chunk.type === 'IEND');
+  chunks.splice(iendIndex < 0 ? chunks.length : iendIndex, 0, ours);
+  return Buffer.concat([PNG_SIGNATURE, ...chunks.map(encodePngChunk)]);
+}
+
+function readFromPng(buffer: Buffer): Provenance | null {
+  const chunk = readPngChunks(buffer).find(isOurChunk);
+  return chunk ? JSON.parse(decodeITxt(chunk.data)!.text) : null;
+}
+
+// --- JPEG / WebP: XMP packet -----------------------------------------------
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&gt;/g, '>')
+    .replace(/&lt;/g, '<')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * The full record is kept as JSON in imggen:Provenance; the prompt is also written
+ * to dc:description so other tools show something useful
+ */
+function buildXmp(provenance: Provenance): string {
+  return [
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    `<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:imggen="${XMP_NAMESPACE}">`,
+    `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(provenance.prompt)}</rdf:li></rdf:Alt></dc:description>`,
+    `<imggen:Provenance>${escapeXml(JSON.stringify(provenance))}</imggen:Provenance>`,
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+  ].join('');
+}
+
+// --- JPEG: APP1 segment ----------------------------------------------------
+
+const JPEG_XMP_HEADER = Buffer.from('http://ns.adobe.com/xap/1.0/\0', 'latin1');
+
+/**
+ * Put the XMP packet in an APP1 segment after the leading APP segments, replacing any
+ * earlier XMP. The compressed image data is copied as is.
+ */
+function embedXmpInJpeg(buffer: Buffer, xmp: string): Buffer {
+  const packet = Buffer.concat([JPEG_XMP_HEADER, Buffer.from(xmp, 'utf8')]);
+  if (packet.length + 2 > 0xffff) throw new Error('Metadata is too large for a JPEG XMP segment');
+
+  const segment = Buffer.alloc(4);
+  segment.writeUInt16BE(0xffe1, 0);
+  segment.writeUInt16BE(packet.length + 2, 2);
+
+  const kept: Buffer[] = [];
+  let insertAt = 0;
+  let offset = 2;
+  // Header segments run until start-of-scan; everything from there on is copied whole
+  while (offset + 4 <= buffer.length && buffer[offset] === 0xff && buffer[offset + 1] !== 0xda) {
+    const marker = buffer[offset + 1];
+    const end = offset + 2 + buffer.readUInt16BE(offset + 2);
+    const data = buffer.subarray(offset + 4, end);
+    const isXmp = marker === 0xe1 && data.subarray(0, JPEG_XMP_HEADER.length).equals(JPEG_XMP_HEADER);
+    if (!isXmp) {
+      kept.push(buffer.subarray(offset, end));
+      if (marker >= 0xe0 && marker <= 0xef && insertAt === kept.length - 1) insertAt = kept.length;
+    }
+    offset = end;
+  }
+
+  kept.splice(insertAt, 0, Buffer.concat([segment, packet]));
+  return Buffer.concat([buffer.subarray(0, 2), ...kept, buffer.subarray(offset)]);
+}
+
+// --- WebP: XMP chunk -------------------------------------------------------
+
+const VP8X_XMP_FLAG = 0x04;
+const VP8X_ALPHA_FLAG = 0x10;
+
+interface RiffChunk {
+  type: string;
+  data: Buffer;
+}
+
+function readRiffChunks(buffer: Buffer): RiffChunk[] {
+  if (buffer.toString('latin1', 0, 4) !== 'RIFF' || buffer.toString('latin1', 8, 12) !== 'WEBP') {
+    throw new Error('Not a WebP file');
+  }
+
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const type = buffer.toString('latin1', offset, offset + 4);
+    const length = buffer.readUInt32LE(offset + 4);
+    chunks.push({ type, data: buffer.subarray(offset + 8, offset + 8 + length) });
+    offset += 8 + length + (length % 2);
+  }
+  return chunks;
+}
+
+function encodeRiffChunk({ type, data }: RiffChunk): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(type, 0, 'latin1');
+  header.writeUInt32LE(data.length, 4);
+  return Buffer.concat([header, data, Buffer.alloc(data.length % 2)]);
+}
+
+/**
+ * Add an XMP chunk, converting a simple WebP to the extended (VP8X) layout that
+ * metadata needs. The compressed image data is copied as is.
+ */
+async function embedXmpInWebp(buffer: Buffer, xmp: string): Promise<Buffer> {
+  const chunks = readRiffChunks(buffer).filter((chunk) => chunk.type !== 'XMP ');
+  let vp8x = chunks.find((chunk) => chunk.type === 'VP8X');
+
+  if (!vp8x) {
+    const { width, height, hasAlpha } = await sharp(buffer).metadata();
+    const data = Buffer.alloc(10);
+    data[0] = hasAlpha ? VP8X_ALPHA_FLAG : 0;
+    data.writeUIntLE(width! - 1, 4, 3);
+    data.writeUIntLE(height! - 1, 7, 3);
+    vp8x = { type: 'VP8X', data };
+    chunks.unshift(vp8x);
+  } else {
+    vp8x.data = Buffer.from(vp8x.data);
+  }
+  vp8x.data[0] |= VP8X_XMP_FLAG;
+  chunks.push({ type: 'XMP ', data: Buffer.from(xmp, 'utf8') });
+
+  const body = Buffer.concat([Buffer.from('WEBP', 'latin1'), ...chunks.map(encodeRiffChunk)]);
+  const header = Buffer.alloc(8);
+  header.write('RIFF', 0, 'latin1');
+  header.writeUInt32LE(body.length, 4);
+  return Buffer.concat([header, body]);
+}
+
+function readFromXmp(xmp: string): Provenance | null {
+  const match = xmp.match(/<imggen:Provenance>([\s\S]*?)<\/imggen:Provenance>/);
+  return match ? JSON.parse(unescapeXml(match[1])) : null;
+}
+
+/**
+ * Write provenance into an image in place without re-encoding it: an iTXt chunk for
+ * PNG, an XMP packet for JPEG and WebP
+ */
+export async function embedProvenance(imagePath: string, provenance: Provenance): Promise<void> {
+  const buffer = Buffer.from(await Bun.file(imagePath).arrayBuffer());
+  const { format } = await sharp(buffer).metadata();
+
+  switch (format) {
+    case 'png':
+      await Bun.write(imagePath, embedInPng(buffer, provenance));
+      break;
+    case 'jpeg':
+      await Bun.write(imagePath, embedXmpInJpeg(buffer, buildXmp(provenance)));
+      break;
+    case 'webp':
+      await Bun.write(imagePath, await embedXmpInWebp(buffer, buildXmp(provenance)));
+      break;
+    default:
+      throw new Error(`Cannot embed metadata in ${format ?? extname(imagePath)} images`);
+  }
+}
+
+/**
+ * Read embedded provenance back, or null if the image carries none
+ */
+export async function readProvenance(imagePath: string): Promise<Provenance | null> {
+  const buffer = Buffer.from(await Bun.file(imagePath).arrayBuffer());
+  const metadata = await sharp(buffer).metadata();
+
+  if (metadata.format === 'png') {
+    return readFromPng(buffer);
+  }
+
+  return metadata.xmp ? readFromXmp(metadata.xmp.toString('utf8')) : null;
+}
@@ -0,0 +1,112 @@
+import { existsSync } from 'fs';
+import type { AspectRatio, GenerateOptions, Model } from '../types';
+import { isKnownModel } from '../providers';
+import { findHistoryEntry } from './history';
+import { readProvenance, sha256File } from './provenance';
+import type { HistoryEntry } from './history';
+import type { Provenance } from './provenance';
+
+export interface Reproduction {
+  options: GenerateOptions;
+  warnings: string[];
+}
+
+/**
+ * Turn embedded provenance back into the options that produced the image
+ */
+export async function provenanceToOptions(provenance: Provenance): Promise<Reproduction> {
+  const warnings: string[] = [];
+
+  if (!isKnownModel(provenance.model)) {
+    throw new Error(`Image was generated with unknown model "${provenance.model}"`);
+  }
+
+  if (provenance.seed === undefined) {
+    warnings.push('No seed was recorded, so the result will differ from the original');
+  }
+
+  const inputs = [
+    ...(provenance.references ?? []).map((file) => ({ label: 'Reference image', file })),
+    ...provenance.source ? [{ label: 'Edited image', file: provenance.source }] : [],
+    ...provenance.mask ? [{ label: 'Mask', file: provenance.mask }] : [],
+  ];
+  for (const { label, file } of inputs) {
+    if (!existsSync(file.path)) {
+      warnings.push(`${label} is missing: ${file.path}`);
+    } else if ((await sha256File(file.path)) !== file.sha256) {
+      warnings.push(`${label} has changed since generation: ${file.path}`);
+    }
+  }
+
+  const options: GenerateOptions = {
+    model: provenance.model as Model,
+    prompt: provenance.prompt,
+    negativePrompt: provenance.negativePrompt,
+    seed: provenance.seed,
+    steps: provenance.steps,
+    guidance: provenance.guidance,
+    aspectRatio: provenance.aspectRatio as AspectRatio | undefined,
+    size: provenance.size,
+    quality: provenance.quality as GenerateOptions['quality'],
+    style: provenance.style as GenerateOptions['style'],
+    transparent: provenance.transparent,
+    numImages: provenance.numImages,
+    useApi: provenance.useApi,
+    removeBg: provenance.removeBg,
+    addBg: provenance.addBg,
+    upscale: provenance.upscale,
+    upscaler: provenance.upscaler,
+    post: provenance.post,
+    referenceImages: provenance.references?.map((ref) => ref.path),
+    editImage: provenance.source?.path,
+    mask: provenance.mask?.path,
+    strength: provenance.strength,
+  };
+
+  return { options, warnings };
+}
+
+/**
+ * Rebuild options from a history entry. Per-run settings (output, variations,
+ * fallback chain) are left for the new run to decide.
+ */
+function historyToOptions(entry: HistoryEntry): Reproduction {
+  const { output, variations, fallback, ...options } = entry.options;
+  const warnings: string[] = [];
+
+  if (!entry.success) {
+    warnings.push(`History entry ${entry.id} is a failed generation`);
+  }
+  if (options.seed === undefined) {
+    warnings.push('No seed was recorded, so the result will differ from the original');
+  }
+  for (const ref of options.referenceImages ?? []) {
+    if (!existsSync(ref)) warnings.push(`Reference image is missing: ${ref}`);
+  }
+  if (options.editImage && !existsSync(options.editImage)) {
+    warnings.push(`Edited image is missing: ${options.editImage}`);
+  }
+
+  return { options, warnings };
+}
+
+/**
+ * Load the options used to create an earlier image, from either the image's
+ * embedded metadata or a history entry id
+ */
+export async function loadReproduction(source: string): Promise<Reproduction> {
+  if (!existsSync(source)) {
+    const entry = await findHistoryEntry(source);
+    if (!entry) {
+      throw new Error(`Cannot reproduce "${source}": no such file or history entry`);
+    }
+    return historyToOptions(entry);
+  }
+
+  const provenance = await readProvenance(source);
+  if (!provenance) {
+    throw new Error(`No generation metadata found in ${source}`);
+  }
+
+  return provenanceToOptions(provenance);
+}
@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'bun:test';
+import { expandSweep, parseSweep, parseSweeps, sweepLabels } from './sweep';
+
+describe('parseSweep', () => {
+  test('parses and de-duplicates values', () => {
+    expect(parseSweep('guidance=2, 3.5,5,2')).toEqual({ key: 'guidance', values: [2, 3.5, 5] });
+    expect(parseSweep('model=flux,mock')).toEqual({ key: 'model', values: ['flux', 'mock'] });
+  });
+
+  test('accepts kebab-case keys', () => {
+    expect(parseSweep('aspect-ratio=1:1,16:9')).toEqual({ key: 'aspectRatio', values: ['1:1', '16:9'] });
+  });
+
+  test('rejects unknown keys, missing values and bad values', () => {
+    expect(() => parseSweep('prompt=a,b')).toThrow('Invalid --sweep "prompt=a,b"');
+    expect(() => parseSweep('seed')).toThrow('Invalid --sweep "seed"');
+    expect(() => parseSweep('seed=')).toThrow('--sweep seed needs at least one value');
+    expect(() => parseSweep('seed=1,1.5')).toThrow('Invalid --sweep seed: "1.5" is not a whole number');
+    expect(() => parseSweep('model=nope')).toThrow('unknown model "nope"');
+    expect(() => parseSweep('quality=ultra')).toThrow('must be one of standard, hd');
+  });
+});
+
+describe('parseSweeps', () => {
+  test('rejects the same key twice', () => {
+    expect(() => parseSweeps(['seed=1,2', 'seed=3'])).toThrow('--sweep seed was given more than once');
+  });
+});
+
+describe('expandSweep', () => {
+  test('builds the cartesian product with the last axis as columns', () => {
+    const axes = parseSweeps(['model=flux,mock', 'seed=1,2,3']);
+    const cells = expandSweep(axes);
+
+    expect(cells).toHaveLength(6);
+    expect(cells[0]).toEqual({ values: { model: 'flux', seed: 1 }, row: 0, column: 0 });
+    expect(cells[2]).toEqual({ values: { model: 'flux', seed: 3 }, row: 0, column: 2 });
+    expect(cells[4]).toEqual({ values: { model: 'mock', seed: 2 }, row: 1, column: 1 });
+  });
+
+  test('labels rows and columns for the contact sheet', () => {
+    expect(sweepLabels(parseSweeps(['model=flux,mock', 'steps=10,20', 'seed=1,2']))).toEqual({
+      rows: ['model=flux, steps=10', 'model=flux, steps=20', 'model=mock, steps=10', 'model=mock, steps=20'],
+      columns: ['seed=1', 'seed=2'],
+    });
+    expect(sweepLabels(parseSweeps(['seed=1,2'])).rows).toEqual(['']);
+  });
+});
@@ -0,0 +1,131 @@
+import type { GenerateOptions } from '../types';
+import { ASPECT_RATIO_TO_DIMENSIONS } from '../types';
+import { isKnownModel } from '../providers';
+
+type SweepValue = string | number;
+
+/**
+ * Options that can be swept, with a parser that validates one value
+ */
+const SWEEP_PARSERS: Record<string, (value: string) => SweepValue> = {
+  model: (value) => {
+    if (!isKnownModel(value)) throw new Error(`unknown model "${value}"`);
+    return value;
+  },
+  seed: (value) => parseInteger(value),
+  steps: (value) => parseInteger(value),
+  guidance: (value) => {
+    const n = Number(value);
+    if (value === '' || isNaN(n)) throw new Error(`"${value}" is not a number`);
+    return n;
+  },
+  aspectRatio: (value) => {
+    if (!(value in ASPECT_RATIO_TO_DIMENSIONS)) throw new Error(`unsupported aspect ratio "${value}"`);
+    return value;
+  },
+  size: (value) => value,
+  quality: (value) => oneOf(value, ['standard', 'hd']),
+  style: (value) => oneOf(value, ['vivid', 'natural']),
+};
+
+export const SWEEP_KEYS = Object.keys(SWEEP_PARSERS);
+
+export interface SweepAxis {
+  key: keyof GenerateOptions;
+  values: SweepValue[];
+}
+
+export interface SweepCell {
+  /** Option overrides for this combination */
+  values: Partial<GenerateOptions>;
+  /** Position in the contact sheet */
+  row: number;
+  column: number;
+}
+
+function parseInteger(value: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n)) throw new Error(`"${value}" is not a whole number`);
+  return n;
+}
+
+function oneOf(value: string, allowed: string[]): string {
+  if (!allowed.includes(value)) throw new Error(`"${value}" must be one of ${allowed.join(', ')}`);
+  return value;
+}
+
+/**
+ * Parse a --sweep spec such as "guidance=2,3.5,5". Keys may be kebab-case (aspect-ratio).
+ */
+export function parseSweep(spec: string): SweepAxis {
+  const eq = spec.indexOf('=');
+  const key = spec.slice(0, eq).trim().replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+  const parse = SWEEP_PARSERS[key];
+
+  if (eq <= 0 || !parse) {
+    throw new Error(`Invalid --sweep "${spec}". Expected key=v1,v2,... with key one of: ${SWEEP_KEYS.join(', ')}`);
+  }
+
+  const raw = spec.slice(eq + 1).split(',').map((value) => value.trim()).filter(Boolean);
+  if (!raw.length) throw new Error(`--sweep ${key} needs at least one value`);
+
+  try {
+    return { key: key as keyof GenerateOptions, values: [...new Set(raw.map(parse))] };
+  } catch (error) {
+    throw new Error(`Invalid --sweep ${key}: ${error instanceof Error ? error.message : 'bad value'}`);
+  }
+}
+
+/**
+ * Combine axes, rejecting the same key swept twice
+ */
+export function parseSweeps(specs: string[]): SweepAxis[] {
+  const axes = specs.map(parseSweep);
+  const keys = axes.map((axis) => axis.key);
+  const duplicate = keys.find((key, i) => keys.indexOf(key) !== i);
+  if (duplicate) throw new Error(`--sweep ${duplicate} was given more than once`);
+  return axes;
+}
+
+function axisLabel(axis: SweepAxis, value: SweepValue): string {
+  return `${axis.key}=${value}`;
+}
+
+/**
+ * Expand axes into their cartesian product. The last axis varies fastest and forms
+ * the contact sheet's columns; every combination of the other axes is one row.
+ */
+export function expandSweep(axes: SweepAxis[]): SweepCell[] {
+  const columnAxis = axes[axes.length - 1];
+  let combos: Partial<GenerateOptions>[] = [{}];
+
+  for (const axis of axes) {
+    combos = combos.flatMap((combo) => axis.values.map((value) => ({ ...combo, [axis.key]: value })));
+  }
+
+  return combos.map((values, i) => ({
+    values,
+    row: Math.floor(i / columnAxis.values.length),
+    column: i % columnAxis.values.length,
+  }));
+}
+
+/**
+ * Header labels for the contact sheet: one per column value of the last axis, and one
+ * per row combining the values of the remaining axes (empty with a single axis)
+ */
+export function sweepLabels(axes: SweepAxis[]): { rows: string[]; columns: string[] } {
+  const columnAxis = axes[axes.length - 1];
+  let rows: string[] = [''];
+
+  for (const axis of axes.slice(0, -1)) {
+    rows = rows.flatMap((row) =>
+      axis.values.map((value) => (row ? `${row}, ` : '') + axisLabel(axis, value))
+    );
+  }
+
+  return {
+    rows,
+    columns: columnAxis.values.map((value) => axisLabel(columnAxis, value)),
+  };
+}
@@ -0,0 +1,168 @@
+import { existsSync, readdirSync } from 'fs';
+import { dirname, extname, join, resolve } from 'path';
+import { configDir } from './config';
+
+/**
+ * Templates that ship with the CLI. stdin-refine combines a piped prompt ({input})
+ * with refinement text from the command line ({prompt}).
+ */
+export const BUILTIN_TEMPLATES: Record<string, string> = {
+  'stdin-refine': '<image_prompt>\n{input}\n</image_prompt>\n\n<additional_guidance>\n{prompt}\n</additional_guidance>',
+};
+
+const TEMPLATE_EXTENSIONS = ['.txt', '.md', '.prompt'];
+const PROJECT_TEMPLATE_DIR = join('.imggen', 'templates');
+
+// {{ and }} are literal braces; {name}, {name=default} and {>partial} are placeholders
+const PLACEHOLDER = /\{\{|\}\}|\{(>)?\s*([\w.-]+)\s*(?:=([^}]*))?\}/g;
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+export interface TemplateInfo {
+  name: string;
+  path: string;
+}
+
+/**
+ * Directories searched for templates, most specific first: the nearest
+ * .imggen/templates above cwd, then ~/.config/img-gen/templates
+ */
+export function templateDirs(cwd: string = process.cwd()): string[] {
+  const dirs: string[] = [];
+  let dir = resolve(cwd);
+  for (;;) {
+    const candidate = join(dir, PROJECT_TEMPLATE_DIR);
+    if (existsSync(candidate)) {
+      dirs.push(candidate);
+      break;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+  dirs.push(process.env.IMG_GEN_TEMPLATES_DIR || join(configDir(), 'templates'));
+  return dirs;
+}
+
+/**
+ * Every available template; a template on disk hides a built-in of the same name
+ */
+export function listTemplates(): TemplateInfo[] {
+  const found = new Map<string, TemplateInfo>();
+
+  for (const dir of templateDirs()) {
+    if (!existsSync(dir)) continue;
+    for (const file of readdirSync(dir).sort()) {
+      const ext = extname(file);
+      const name = file.slice(0, -ext.length);
+      if (TEMPLATE_EXTENSIONS.includes(ext) && !found.has(name)) {
+        found.set(name, { name, path: join(dir, file) });
+      }
+    }
+  }
+
+  for (const name of Object.keys(BUILTIN_TEMPLATES)) {
+    if (!found.has(name)) found.set(name, { name, path: '(built-in)' });
+  }
+
+  return [...found.values()];
+}
+
+export async function loadTemplate(name: string): Promise<string> {
+  for (const dir of templateDirs()) {
+    for (const ext of TEMPLATE_EXTENSIONS) {
+      const file = Bun.file(join(dir, `${name}${ext}`));
+      if (await file.exists()) return (await file.text()).trim();
+    }
+  }
+
+  if (name in BUILTIN_TEMPLATES) return BUILTIN_TEMPLATES[name];
+
+  throw new TemplateError(
+    `Template "${name}" not found. Available templates: ${listTemplates().map((t) => t.name).join(', ')}`
+  );
+}
+
+async function expand(
+  name: string,
+  vars: Record<string, string>,
+  stack: string[],
+  used: Set<string>,
+  missing: Set<string>
+): Promise<string> {
+  if (stack.includes(name)) {
+    throw new TemplateError(`Template include cycle: ${[...stack, name].join(' -> ')}`);
+  }
+
+  const source = await loadTemplate(name);
+  const parts: string[] = [];
+  let last = 0;
+
+  for (const match of source.matchAll(PLACEHOLDER)) {
+    parts.push(source.slice(last, match.index));
+    last = match.index! + match[0].length;
+
+    const [token, partial, key, fallback] = match;
+    if (token === '{{') {
+      parts.push('{');
+    } else if (token === '}}') {
+      parts.push('}');
+    } else if (partial) {
+      parts.push(await expand(key, vars, [...stack, name], used, missing));
+    } else if (key in vars) {
+      used.add(key);
+      parts.push(vars[key]);
+    } else if (fallback !== undefined) {
+      parts.push(fallback.trim());
+    } else {
+      missing.add(key);
+    }
+  }
+
+  parts.push(source.slice(last));
+  return parts.join('');
+}
+
+export interface RenderedTemplate {
+  prompt: string;
+  /** Variables that were passed but never referenced */
+  unused: string[];
+}
+
+/**
+ * Render a named template with variables. Fails listing every variable that has
+ * neither a value nor a default.
+ */
+export async function renderTemplate(name: string, vars: Record<string, string>): Promise<RenderedTemplate> {
+  const used = new Set<string>();
+  const missing = new Set<string>();
+  const prompt = (await expand(name, vars, [], used, missing)).trim();
+
+  if (missing.size) {
+    throw new TemplateError(
+      `Template "${name}" is missing values for: ${[...missing].join(', ')}. Pass them with --var name=value`
+    );
+  }
+
+  return { prompt, unused: Object.keys(vars).filter((key) => !used.has(key)) };
+}
+
+/**
+ * Parse --var name=value arguments into a variables map
+ */
+export function parseVars(specs: string[] = []): Record<string, string> {
+  const vars: Record<string, string> = {};
+  for (const spec of specs) {
+    const eq = spec.indexOf('=');
+    if (eq <= 0) {
+      throw new TemplateError(`Invalid --var "${spec}". Expected name=value`);
+    }
+    vars[spec.slice(0, eq).trim()] = spec.slice(eq + 1);
+  }
+  return vars;
+}
@@ -0,0 +1,130 @@
+import sharp from 'sharp';
+import Replicate from 'replicate';
+import { mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { readImageAsBase64, getMimeType, downloadImage } from './download';
+import { outputUrl } from '../providers/replicate';
+import { recordSpend } from './ledger';
+
+export const UPSCALE_FACTORS = [2, 4] as const;
+export type UpscaleFactor = (typeof UPSCALE_FACTORS)[number];
+
+/**
+ * A way of enlarging an image. Backends are looked up by name, so others can be added
+ * with registerUpscaler.
+ */
+export interface Upscaler {
+  name: string;
+  description: string;
+  upscale(inputPath: string, outputPath: string, factor: UpscaleFactor): Promise<void>;
+  /** Estimated USD per run, for the spend ledger and --max-cost; unset for free backends */
+  pricing?: { provider: string; model: string; perRun: number };
+}
+
+const REPLICATE_UPSCALE_MODEL = 'nightmareai/real-esrgan';
+
+/** Replicate's approximate price for one Real-ESRGAN run */
+const REPLICATE_UPSCALE_PRICE = 0.0025;
+
+const replicateUpscaler: Upscaler = {
+  name: 'replicate',
+  description: `Real-ESRGAN on Replicate (${REPLICATE_UPSCALE_MODEL})`,
+  pricing: { provider: 'replicate', model: REPLICATE_UPSCALE_MODEL, perRun: REPLICATE_UPSCALE_PRICE },
+  async upscale(inputPath, outputPath, factor) {
+    const apiKey = process.env.REPLICATE_API_TOKEN;
+    if (!apiKey) {
+      throw new Error('REPLICATE_API_TOKEN environment variable is required for the replicate upscaler');
+    }
+
+    const client = new Replicate({ auth: apiKey });
+    const output = await client.run(REPLICATE_UPSCALE_MODEL, {
+      input: {
+        image: `data:${getMimeType(inputPath)};base64,${await readImageAsBase64(inputPath)}`,
+        scale: factor,
+      },
+    });
+
+    const url = outputUrl(Array.isArray(output) ? output[0] : output);
+    if (!url) throw new Error('Unexpected response format from Replicate');
+    await downloadImage(url, outputPath);
+  },
+};
+
+const localUpscaler: Upscaler = {
+  name: 'local',
+  description: 'Lanczos resampling with sharp (offline, no added detail)',
+  async upscale(inputPath, outputPath, factor) {
+    const { width, height } = await sharp(inputPath).metadata();
+    if (!width || !height) throw new Error(`Cannot read the size of ${inputPath}`);
+
+    // Read into memory first so the output may replace the input
+    const input = await Bun.file(inputPath).arrayBuffer();
+    await mkdir(dirname(outputPath), { recursive: true });
+    await sharp(input)
+      .resize(width * factor, height * factor, { kernel: 'lanczos3' })
+      .toFile(outputPath);
+  },
+};
+
+const upscalers = new Map<string, Upscaler>([
+  [replicateUpscaler.name, replicateUpscaler],
+  [localUpscaler.name, localUpscaler],
+]);
+
+export function registerUpscaler(upscaler: Upscaler): void {
+  upscalers.set(upscaler.name, upscaler);
+}
+
+/** Backend names accepted by --upscaler, including "auto" */
+export function upscalerNames(): string[] {
+  return ['auto', ...upscalers.keys()];
+}
+
+/**
+ * Parse an upscale factor such as "2x", "4x" or "4"
+ */
+export function parseUpscaleFactor(value: string): UpscaleFactor {
+  const factor = Number(value.replace(/x$/i, ''));
+  if (!UPSCALE_FACTORS.includes(factor as UpscaleFactor)) {
+    throw new Error(`Upscale factor must be ${UPSCALE_FACTORS.map((f) => `${f}x`).join(' or ')}`);
+  }
+  return factor as UpscaleFactor;
+}
+
+/**
+ * The backend to use: the one named, or for "auto" (the default) the local resampler.
+ * Replicate charges per run, so it is only used when asked for by name.
+ */
+export function resolveUpscaler(name = 'auto'): Upscaler {
+  if (name === 'auto') return localUpscaler;
+
+  const upscaler = upscalers.get(name);
+  if (!upscaler) {
+    throw new Error(`Unknown upscaler "${name}". Available: ${upscalerNames().join(', ')}`);
+  }
+  return upscaler;
+}
+
+/**
+ * Enlarge an image by factor with the named backend, returning the backend used. Runs
+ * of a priced backend are added to the spend ledger.
+ */
+export async function upscaleImage(
+  inputPath: string,
+  outputPath: string,
+  factor: UpscaleFactor,
+  backend?: string
+): Promise<Upscaler> {
+  const upscaler = resolveUpscaler(backend);
+  await upscaler.upscale(inputPath, outputPath, factor);
+
+  if (upscaler.pricing) {
+    const { provider, model, perRun } = upscaler.pricing;
+    try {
+      await recordSpend({ model, provider, images: 1, cost: perRun });
+    } catch {
+      // The ledger is best-effort
+    }
+  }
+  return upscaler;
+}